@@ -1,10 +1,79 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import ReactCrop, { Crop, PixelCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
-import { formatFileSizeDual } from './utils/fileHelpers';
-import { compressImageToTarget, getCroppedImg } from './utils/imageProcessor';
+import { formatFileSize, formatFileSizeDual, getBaseName, downloadUrl, getExtensionForMime, loadImage } from './utils/fileHelpers';
+import { AUTO_FORMATS, CompressionOptions, CompressionProgress, decodeForCompression, isAbortError, resolveOutputType } from './utils/imageProcessor';
+import { ExifData, readExif, summarizeExif } from './utils/exif';
+import { fillStamp, getStampValues, usesDateToken } from './utils/stamp';
+import { hasTransparency, supportsAlpha } from './utils/transparency';
+import { fitCanvasLimits } from './utils/canvas';
+import { EditSource, createPreviewSource, emptyEditHistory, pushEdit, redoEdit, renderEditedPreview, undoEdit } from './utils/edits';
+import { isPipelineError } from './utils/errors';
+import { compressInBackground } from './utils/compressionClient';
+import { createZip, uniqueZipNames } from './utils/zip';
+import { exportPdfToTarget, PdfExportProgress } from './utils/pdfExport';
+import {
+  loadHistoryRecords,
+  saveHistoryRecord,
+  deleteHistoryRecord,
+  clearHistoryRecords,
+  enforceHistoryQuota,
+  getHistoryQuotaMB,
+  setHistoryQuotaMB,
+  HISTORY_QUOTA_OPTIONS_MB,
+} from './utils/historyStore';
 import ImageUploader from './components/ImageUploader';
+import BatchQueue from './components/BatchQueue';
+import FormatSelector from './components/FormatSelector';
+import TargetSizeInput, { parseTargetList } from './components/TargetSizeInput';
+import TargetComparisonGrid from './components/TargetComparisonGrid';
+import RangeStatus from './components/RangeStatus';
+import ResultStatus from './components/ResultStatus';
+import FormatChoiceNote from './components/FormatChoiceNote';
+import DimensionsInput, { DimensionsInputValue, defaultDimensionsInput } from './components/DimensionsInput';
+import PresetPicker from './components/PresetPicker';
+import CompareViewer from './components/CompareViewer';
+import MetadataSettings, { defaultMetadataOptions } from './components/MetadataSettings';
+import TransparencySettings, { defaultTransparencyOptions } from './components/TransparencySettings';
+import DocumentSettings, { defaultDocumentOptions } from './components/DocumentSettings';
+import StampSettings, { defaultStampOptions } from './components/StampSettings';
+import PdfExportSettings, { defaultPdfOptions } from './components/PdfExportSettings';
+import ResamplingSelector, { defaultResamplingMethod } from './components/ResamplingSelector';
+import CompressionProgressBar from './components/CompressionProgressBar';
+import EditToolbar from './components/EditToolbar';
+import CropEditor from './components/CropEditor';
+import {
+  BUILT_IN_PRESETS,
+  loadUserPresets,
+  saveUserPresets,
+  createUserPreset,
+  exportPresetsJson,
+  parsePresetsJson,
+  mergePresets,
+} from './utils/presets';
 import Button from './components/Button';
-import { AppState, ProcessedImage, ToastMessage, HistoryItem } from './types';
+import { AppState, ProcessedImage, ToastMessage, HistoryItem, BatchItem, OutputFormat, EncodableFormat, TargetRange, UndersizeStrategy, Preset, MetadataOptions, TransparencyOptions, DocumentOptions, StampOptions, PdfOptions, ResamplingMethod, EditHistory } from './types';
+
+const MAX_OUTPUT_DIMENSION = 8192;
+// Each target is a full search, so the list is kept short
+const MAX_MULTI_TARGETS = 6;
+
+// Banner over a result; ResultStatus below it explains a missed target
+const resultBanners: Record<ProcessedImage['status'], { label: string; className: string; icon: string }> = {
+  met: {
+    label: 'Resized Successfully!',
+    className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-200 dark:border-green-800',
+    icon: 'M2.25 12c0-5.385 4.365-9.75 9.75-9.75s9.75 4.365 9.75 9.75-4.365 9.75-9.75 9.75S2.25 17.385 2.25 12zm13.36-1.814a.75.75 0 10-1.22-.872l-3.236 4.53L9.53 12.22a.75.75 0 00-1.06 1.06l2.25 2.25a.75.75 0 001.14-.094l3.75-5.25z',
+  },
+  'best-effort': {
+    label: 'Resized, but below the minimum size',
+    className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 border-amber-200 dark:border-amber-800',
+    icon: 'M9.401 3.003c1.155-2 4.043-2 5.197 0l7.355 12.748c1.154 2-.29 4.5-2.599 4.5H4.645c-2.309 0-3.752-2.5-2.598-4.5L9.4 3.003zM12 8.25a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V9A.75.75 0 0112 8.25zm0 8.25a.75.75 0 100-1.5.75.75 0 000 1.5z',
+  },
+  failed: {
+    label: "Couldn't reach the target size",
+    className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800',
+    icon: 'M2.25 12c0-5.385 4.365-9.75 9.75-9.75s9.75 4.365 9.75 9.75-4.365 9.75-9.75 9.75S2.25 17.385 2.25 12zM12 8.25a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V9a.75.75 0 01.75-.75zm0 8.25a.75.75 0 100-1.5.75.75 0 000 1.5z',
+  },
+};
 
 const App: React.FC = () => {
   // State
@@ -13,9 +82,39 @@ const App: React.FC = () => {
   const [fileName, setFileName] = useState<string>('image.jpg');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [targetKB, setTargetKB] = useState<string>('');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('image/jpeg');
+  const [autoFormats, setAutoFormats] = useState<EncodableFormat[]>(AUTO_FORMATS);
+  const [rangeMode, setRangeMode] = useState(false);
+  // Several targets at once, e.g. "20, 50, 100"; results are compared side by side
+  const [multiTargetMode, setMultiTargetMode] = useState(false);
+  const [targetList, setTargetList] = useState('');
+  const [multiResults, setMultiResults] = useState<ProcessedImage[]>([]);
+  const [multiStep, setMultiStep] = useState<{ current: number; total: number; kb: number } | null>(null);
+  const [minKB, setMinKB] = useState<string>('');
+  const [undersizeStrategy, setUndersizeStrategy] = useState<UndersizeStrategy>('pad');
+  const [dimensionsInput, setDimensionsInput] = useState<DimensionsInputValue>(defaultDimensionsInput);
+  const [metadataOptions, setMetadataOptions] = useState<MetadataOptions>(defaultMetadataOptions);
+  // EXIF of the selected image; undefined while it is being read
+  const [exif, setExif] = useState<ExifData | null | undefined>();
+  const [transparencyOptions, setTransparencyOptions] = useState<TransparencyOptions>(defaultTransparencyOptions);
+  const [documentOptions, setDocumentOptions] = useState<DocumentOptions>(defaultDocumentOptions);
+  const [stampOptions, setStampOptions] = useState<StampOptions>(defaultStampOptions);
+  const [sourceHasAlpha, setSourceHasAlpha] = useState(false);
+  // Set when the selected image exceeds the browser's canvas limits and will be scaled down
+  const [oversizedSource, setOversizedSource] = useState<{ width: number; height: number; fitWidth: number; fitHeight: number } | null>(null);
+  const [resampling, setResampling] = useState<ResamplingMethod>(defaultResamplingMethod);
+
+  // Presets State
+  const [userPresets, setUserPresets] = useState<Preset[]>(() => loadUserPresets());
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [cropAspect, setCropAspect] = useState<number | undefined>();
   const [result, setResult] = useState<ProcessedImage | null>(null);
   const [toast, setToast] = useState<ToastMessage | null>(null);
   const [downloaded, setDownloaded] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [progress, setProgress] = useState<CompressionProgress | null>(null);
+  // Cancels the running resize, batch or PDF export
+  const abortRef = useRef<AbortController | null>(null);
 
   // Features State
   const [darkMode, setDarkMode] = useState(false);
@@ -26,14 +125,23 @@ const App: React.FC = () => {
   // History Filter/Sort State
   const [historySearch, setHistorySearch] = useState('');
   const [historySort, setHistorySort] = useState<'newest' | 'oldest'>('newest');
+  const [historyQuotaMB, setHistoryQuotaMBState] = useState<number>(() => getHistoryQuotaMB());
 
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Cropping State
   const [isCropping, setIsCropping] = useState(false);
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
-  const imgRef = useRef<HTMLImageElement>(null);
+  // Edit history when crop mode opened, restored on Cancel to drop the turns made since
+  const cropStartRef = useRef<EditHistory>(emptyEditHistory);
+  // The untouched source at preview size, and the edits applied on top of it
+  const [previewSource, setPreviewSource] = useState<EditSource | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(emptyEditHistory);
+
+  // Batch State
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(defaultPdfOptions);
+  const [pdfProgress, setPdfProgress] = useState<PdfExportProgress | null>(null);
 
   // Theme Effect
   useEffect(() => {
@@ -78,6 +186,90 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Restore persisted history, recreating object URLs for the stored blobs
+  useEffect(() => {
+    let cancelled = false;
+    loadHistoryRecords()
+      .then(records => {
+        if (cancelled) return;
+        const restored: HistoryItem[] = records.map(({ blob, ...record }) => ({
+          ...record,
+          url: URL.createObjectURL(blob),
+        }));
+        setHistory(prev => {
+          // Keep anything added while loading, skipping duplicates
+          const ids = new Set(prev.map(item => item.id));
+          return [...prev, ...restored.filter(item => !ids.has(item.id))];
+        });
+      })
+      .catch(error => console.warn('Could not load saved history', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Detect transparency in the edited image so the transparency settings can be offered
+  useEffect(() => {
+    setSourceHasAlpha(false);
+    if (!previewUrl || !originalFile || !supportsAlpha(originalFile.type)) return;
+
+    let cancelled = false;
+    loadImage(previewUrl)
+      .then(img => {
+        if (!cancelled) setSourceHasAlpha(hasTransparency(img, img.naturalWidth, img.naturalHeight));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [previewUrl, originalFile]);
+
+  // Render the preview from the untouched source whenever the edits change. Document mode and
+  // the stamp are left out while cropping, since crops apply to the image underneath them.
+  useEffect(() => {
+    if (!previewSource || !originalFile) return;
+
+    let cancelled = false;
+    const type = supportsAlpha(originalFile.type) ? 'image/png' : 'image/jpeg';
+    renderEditedPreview(previewSource, editHistory.operations, type, isCropping ? {} : {
+      document: documentOptions,
+      stamp: fillStamp(stampOptions, getStampValues(originalFile.name, exif)),
+    })
+      .then(blob => {
+        if (!cancelled) setPreviewUrl(URL.createObjectURL(blob));
+      })
+      .catch(error => {
+        console.error(error);
+        setToast({ type: 'error', text: isPipelineError(error) ? error.message : 'Failed to show the edited image.' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSource, editHistory.operations, originalFile, documentOptions, stampOptions, exif, isCropping]);
+
+  // Undo/redo shortcuts while editing; text fields keep their own undo
+  useEffect(() => {
+    if (state !== AppState.SELECTED || isCropping) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if ((event.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        setEditHistory(undoEdit);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        setEditHistory(redoEdit);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [state, isCropping]);
+
   // Auto-dismiss toast
   useEffect(() => {
     if (toast) {
@@ -98,6 +290,32 @@ const App: React.FC = () => {
       });
   }, [history, historySearch, historySort]);
 
+  const historyUsageBytes = useMemo(
+    () => history.reduce((sum, item) => sum + item.newSize, 0),
+    [history]
+  );
+
+  const removeFromHistoryState = (ids: string[]) => {
+    if (ids.length === 0) return;
+    setHistory(prev => prev.filter(item => {
+      if (ids.includes(item.id)) {
+        URL.revokeObjectURL(item.url);
+        return false;
+      }
+      return true;
+    }));
+  };
+
+  const addToHistory = (item: HistoryItem, blob: Blob) => {
+    setHistory(prev => [item, ...prev]);
+    const { url, ...record } = item;
+    saveHistoryRecord({ ...record, blob })
+      .then(removeFromHistoryState)
+      .catch(error => console.warn('Could not save history item', error));
+  };
+
+  const allPresets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -107,128 +325,569 @@ const App: React.FC = () => {
     }).format(new Date(timestamp));
   };
 
-  const handleImageSelect = (file: File) => {
+  const clearMultiResults = () => {
+    multiResults.forEach(item => URL.revokeObjectURL(item.url));
+    setMultiResults([]);
+  };
+
+  const revokeBatchUrls = () => {
+    batchItems.forEach(item => {
+      if (item.result) URL.revokeObjectURL(item.result.url);
+    });
+  };
+
+  const handleImageSelect = async (file: File) => {
+    // Decode once (upright, and through our own decoders for HEIC/TIFF) and keep a
+    // preview-sized copy that edits are rendered onto
+    let preview: EditSource;
+    let metadata: ExifData | null;
+    let oversized: typeof oversizedSource = null;
+    try {
+      const decoded = await decodeForCompression(file);
+      try {
+        preview = createPreviewSource(decoded.source);
+      } finally {
+        decoded.release();
+      }
+      metadata = decoded.exif;
+      if (decoded.downscaledFrom) {
+        const { width, height } = decoded.downscaledFrom;
+        const fit = fitCanvasLimits(width, height);
+        oversized = { width, height, fitWidth: fit.width, fitHeight: fit.height };
+      }
+    } catch (error) {
+      console.error(error);
+      setToast({ type: 'error', text: isPipelineError(error) ? error.message : 'Failed to open image.' });
+      return;
+    }
+
     // Clean up previous active URLs
     if (previewUrl) URL.revokeObjectURL(previewUrl);
     if (result?.url) URL.revokeObjectURL(result.url);
+    revokeBatchUrls();
+    clearMultiResults();
     
+    setBatchItems([]);
     setResult(null);
-    setTargetKB('');
+    clearPreset();
     setDownloaded(false);
     
-    const url = URL.createObjectURL(file);
     setOriginalFile(file);
     setFileName(file.name);
-    setPreviewUrl(url);
+    setPreviewUrl(null);
+    setPreviewSource(preview);
+    setEditHistory(emptyEditHistory);
+    setOversizedSource(oversized);
+    setExif(metadata);
     setState(AppState.SELECTED);
   };
 
-  const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-    const { width, height } = e.currentTarget;
-    const crop = centerCrop(
-      makeAspectCrop(
-        {
-          unit: '%',
-          width: 90,
-        },
-        width / height,
-        width,
-        height
-      ),
-      width,
-      height
-    );
-    setCrop(crop);
+  const handleImagesSelect = (files: File[]) => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    if (result?.url) URL.revokeObjectURL(result.url);
+    revokeBatchUrls();
+    clearMultiResults();
+
+    const stamp = Date.now();
+    setBatchItems(files.map((file, index) => ({
+      id: `${stamp}-${index}`,
+      file,
+      status: 'pending',
+    })));
+    setOriginalFile(null);
+    setPreviewUrl(null);
+    setPreviewSource(null);
+    setEditHistory(emptyEditHistory);
+    setOversizedSource(null);
+    setExif(null);
+    setResult(null);
+    clearPreset();
+    setState(AppState.BATCH);
   };
 
-  const performCrop = async () => {
-    if (completedCrop && imgRef.current && originalFile) {
-      try {
-        const croppedBlob = await getCroppedImg(imgRef.current, completedCrop, originalFile.type);
-        const newUrl = URL.createObjectURL(croppedBlob);
-        
-        if (previewUrl) URL.revokeObjectURL(previewUrl);
-        
-        setOriginalFile(croppedBlob);
-        setPreviewUrl(newUrl);
-        setIsCropping(false);
-        setToast({ type: 'success', text: 'Image cropped successfully' });
-      } catch (e) {
-        console.error(e);
-        setToast({ type: 'error', text: 'Failed to crop image' });
+  // Validates the size inputs and builds the options shared by single and batch resizing.
+  // `sizeKB` replaces the target input (multi-target mode, where no range can be set).
+  const getCompressionSettings = (sizeKB?: number): { kb: number; options: CompressionOptions; targetRange?: TargetRange } | null => {
+    const kb = sizeKB ?? parseInt(targetKB, 10);
+    if (isNaN(kb) || kb <= 0) {
+      setToast({ type: 'error', text: 'Please enter a valid file size in KB' });
+      return null;
+    }
+
+    const options: CompressionOptions = {
+      format: outputFormat,
+      autoFormats,
+      metadata: metadataOptions,
+      transparency: transparencyOptions,
+      document: documentOptions,
+      resampling,
+    };
+
+    if (dimensionsInput.enabled) {
+      const width = parseInt(dimensionsInput.width, 10) || undefined;
+      const height = parseInt(dimensionsInput.height, 10) || undefined;
+      if ((!width && !height) || (width && width < 0) || (height && height < 0)) {
+        setToast({ type: 'error', text: 'Please enter a width and/or height in pixels' });
+        return null;
       }
-    } else {
-      setIsCropping(false);
+      if ((width || 0) > MAX_OUTPUT_DIMENSION || (height || 0) > MAX_OUTPUT_DIMENSION) {
+        setToast({ type: 'error', text: `Dimensions can be at most ${MAX_OUTPUT_DIMENSION} px` });
+        return null;
+      }
+      if (fitCanvasLimits(width || 1, height || 1).scaled) {
+        setToast({ type: 'error', text: 'These dimensions are larger than this browser can handle. Try smaller ones.' });
+        return null;
+      }
+      options.dimensions = {
+        width,
+        height,
+        mode: dimensionsInput.mode,
+        background: dimensionsInput.background,
+      };
+    }
+
+    if (!rangeMode || sizeKB !== undefined) {
+      return { kb, options };
+    }
+
+    const min = parseInt(minKB, 10);
+    if (isNaN(min) || min <= 0 || min >= kb) {
+      setToast({ type: 'error', text: 'Minimum KB must be above 0 and below the maximum' });
+      return null;
     }
+
+    options.minSizeKB = min;
+    options.undersizeStrategy = undersizeStrategy;
+    return { kb, options, targetRange: { minSize: min * 1024, maxSize: kb * 1024 } };
+  };
+
+  // A min–max range only applies to one size, so the two modes turn each other off
+  const handleMultiTargetModeChange = (multi: boolean) => {
+    setMultiTargetMode(multi);
+    if (multi) setRangeMode(false);
+  };
+
+  const handleRangeModeChange = (range: boolean) => {
+    setRangeMode(range);
+    if (range) setMultiTargetMode(false);
+  };
+
+  // Clears the target for a new image. A selected preset is dropped together with everything
+  // it set, so none of its constraints stay active while no preset is shown.
+  const clearPreset = () => {
+    setTargetKB('');
+    setCropAspect(undefined);
+    if (!selectedPresetId) return;
+
+    setSelectedPresetId('');
+    setRangeMode(false);
+    setMinKB('');
+    setOutputFormat('image/jpeg');
+    setAutoFormats(AUTO_FORMATS);
+    setDimensionsInput(defaultDimensionsInput);
+  };
+
+  const applyPreset = (preset: Preset | null) => {
+    setSelectedPresetId(preset?.id || '');
+    if (!preset) {
+      setCropAspect(undefined);
+      return;
+    }
+
+    setTargetKB(String(preset.targetKB));
+    setRangeMode(!!preset.minKB);
+    if (preset.minKB) setMultiTargetMode(false);
+    setMinKB(preset.minKB ? String(preset.minKB) : '');
+    setOutputFormat(preset.format);
+    setAutoFormats(preset.autoFormats ?? AUTO_FORMATS);
+    setDimensionsInput(preset.dimensions
+      ? {
+          enabled: true,
+          width: preset.dimensions.width ? String(preset.dimensions.width) : '',
+          height: preset.dimensions.height ? String(preset.dimensions.height) : '',
+          mode: preset.dimensions.mode,
+          background: preset.dimensions.background,
+        }
+      : defaultDimensionsInput);
+    setCropAspect(preset.cropAspect);
+  };
+
+  const updateUserPresets = (presets: Preset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const saveCurrentAsPreset = () => {
+    const settings = getCompressionSettings();
+    if (!settings) return;
+
+    const name = window.prompt('Preset name');
+    if (!name || !name.trim()) return;
+
+    const preset = createUserPreset({
+      name: name.trim(),
+      targetKB: settings.kb,
+      minKB: settings.options.minSizeKB,
+      format: outputFormat,
+      autoFormats: outputFormat === 'auto' && autoFormats.length < AUTO_FORMATS.length ? autoFormats : undefined,
+      dimensions: settings.options.dimensions,
+      cropAspect,
+    });
+    updateUserPresets([...userPresets, preset]);
+    setSelectedPresetId(preset.id);
+    setToast({ type: 'success', text: `Saved preset "${preset.name}"` });
+  };
+
+  const deletePreset = (id: string) => {
+    const preset = userPresets.find(item => item.id === id);
+    if (!preset || !window.confirm(`Delete preset "${preset.name}"?`)) return;
+
+    updateUserPresets(userPresets.filter(item => item.id !== id));
+    setSelectedPresetId('');
+    setCropAspect(undefined);
+    setToast({ type: 'success', text: 'Preset deleted' });
+  };
+
+  const importPresets = async (file: File) => {
+    try {
+      const imported = parsePresetsJson(await file.text());
+      updateUserPresets(mergePresets(userPresets, imported));
+      setToast({ type: 'success', text: `Imported ${imported.length} presets` });
+    } catch (error) {
+      console.error(error);
+      setToast({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import presets' });
+    }
+  };
+
+  const exportPresets = () => {
+    const blob = new Blob([exportPresetsJson(userPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, 'pic_resize_presets.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Compresses the edited original to one target and adds the result to the history
+  const resizeOriginal = async (
+    file: File | Blob,
+    kb: number,
+    options: CompressionOptions,
+    targetRange: TargetRange | undefined,
+    signal: AbortSignal
+  ): Promise<ProcessedImage> => {
+    const { blob, width, height, mimeType, quality, ssim, status, reason, adjustment, transparency, downscaledFrom, formatChoice } = await compressInBackground(file, kb, {
+      ...options,
+      edits: editHistory.operations,
+      stamp: fillStamp(stampOptions, getStampValues(fileName, exif)),
+      exif,
+      signal,
+      onProgress: setProgress,
+    });
+
+    // Separate URLs for the result view and the history item, so resetting
+    // the result view (and revoking its URL) leaves the history item intact
+    const url = URL.createObjectURL(blob);
+    const historyUrl = URL.createObjectURL(blob);
+
+    const newItem: HistoryItem = {
+      id: `${Date.now()}-${kb}`,
+      url: historyUrl,
+      fileName: fileName,
+      originalSize: file.size,
+      newSize: blob.size,
+      mimeType,
+      timestamp: Date.now()
+    };
+    addToHistory(newItem, blob);
+
+    return {
+      blob,
+      url,
+      originalSize: file.size,
+      newSize: blob.size,
+      width,
+      height,
+      mimeType,
+      quality,
+      ssim,
+      targetSize: kb * 1024,
+      targetRange,
+      status,
+      reason,
+      adjustment,
+      transparency,
+      downscaledFrom,
+      formatChoice
+    };
   };
 
   const handleResize = async () => {
-    if (!originalFile || !targetKB) return;
-    
-    const kb = parseInt(targetKB, 10);
-    if (isNaN(kb) || kb <= 0) {
-      setToast({ type: 'error', text: 'Please enter a valid file size in KB' });
+    if (!originalFile) return;
+
+    const targets = multiTargetMode ? parseTargetList(targetList) : [];
+    if (multiTargetMode && targets.length === 0) {
+      setToast({ type: 'error', text: 'Please enter one or more sizes in KB, e.g. 20, 50, 100' });
       return;
     }
+    if (targets.length > MAX_MULTI_TARGETS) {
+      setToast({ type: 'error', text: `Please enter at most ${MAX_MULTI_TARGETS} sizes` });
+      return;
+    }
+    
+    const settings = getCompressionSettings(targets[0]);
+    if (!settings) return;
+    const { kb, options, targetRange } = settings;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(null);
     setState(AppState.PROCESSING);
+    const results: ProcessedImage[] = [];
 
     try {
-      await new Promise(r => setTimeout(r, 500));
-      
-      const { blob, width, height } = await compressImageToTarget(originalFile, kb);
-      
-      // Create ONE URL for the Result View
-      const url = URL.createObjectURL(blob);
-      
-      // Create A SEPARATE URL for the History Item
-      // This ensures that when we reset the result view (and revoke its URL),
-      // the history item remains valid and visible.
-      const historyUrl = URL.createObjectURL(blob);
-      
-      const newResult = {
-        blob,
-        url,
-        originalSize: originalFile.size,
-        newSize: blob.size,
-        width,
-        height
-      };
+      if (multiTargetMode) {
+        for (const [index, target] of targets.entries()) {
+          setMultiStep({ current: index + 1, total: targets.length, kb: target });
+          setProgress(null);
+          results.push(await resizeOriginal(originalFile, target, options, undefined, controller.signal));
+        }
+        setMultiResults(results);
+        setState(AppState.COMPLETED);
 
+        const missed = results.filter(item => item.status !== 'met').length;
+        setToast(missed === 0
+          ? { type: 'success', text: `Made ${results.length} versions` }
+          : { type: 'warning', text: `Made ${results.length} versions; ${missed} couldn't reach their target` });
+        return;
+      }
+
+      const newResult = await resizeOriginal(originalFile, kb, options, targetRange, controller.signal);
       setResult(newResult);
-      
-      // Add to history
-      const newItem: HistoryItem = {
-        id: Date.now().toString(),
-        url: historyUrl, 
-        fileName: fileName,
-        originalSize: originalFile.size,
-        newSize: blob.size,
-        timestamp: Date.now()
-      };
-      setHistory(prev => [newItem, ...prev]);
 
       setState(AppState.COMPLETED);
-      setToast({ type: 'success', text: 'Image resized successfully!' });
+      if (newResult.status === 'met') {
+        setToast({ type: 'success', text: 'Image resized successfully!' });
+      } else {
+        setToast({
+          type: 'warning',
+          text: newResult.status === 'failed'
+            ? `Couldn't get below ${kb} KB. This is the smallest version possible.`
+            : 'Resized, but the file is below the minimum size.',
+        });
+      }
     } catch (error) {
+      // Targets finished before a failure are still in the history
+      results.forEach(item => URL.revokeObjectURL(item.url));
+      // Cancelled by the user: back to the settings, unless they already left them
+      if (isAbortError(error)) {
+        setState(current => current === AppState.PROCESSING ? AppState.SELECTED : current);
+        return;
+      }
       console.error(error);
-      setToast({ type: 'error', text: 'Failed to process image.' });
+      setToast({ type: 'error', text: isPipelineError(error) ? error.message : 'Failed to process image.' });
       setState(AppState.SELECTED);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setMultiStep(null);
+    }
+  };
+
+  const cancelResize = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleBatchResize = async () => {
+    if (batchItems.length === 0 || !targetKB) return;
+
+    const settings = getCompressionSettings();
+    if (!settings) return;
+    const { kb, options, targetRange } = settings;
+
+    const updateItem = (id: string, patch: Partial<BatchItem>) => {
+      setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBatchRunning(true);
+    let succeeded = 0;
+    let missed = 0;
+    let failed = 0;
+    let cancelled = false;
+
+    // Re-run everything that isn't already done, so a new target retries failures too
+    for (const item of batchItems) {
+      if (item.status === 'done') continue;
+      updateItem(item.id, { status: 'processing', error: undefined });
+
+      try {
+        // The capture date is only read when the stamp needs it
+        const stampExif = stampOptions.enabled && usesDateToken(stampOptions)
+          ? await readExif(item.file).catch(() => null)
+          : null;
+        const { blob, width, height, mimeType, quality, ssim, status, reason, adjustment, transparency, downscaledFrom, formatChoice } = await compressInBackground(item.file, kb, {
+          ...options,
+          stamp: fillStamp(stampOptions, getStampValues(item.file.name, stampExif)),
+          signal: controller.signal,
+        });
+        const url = URL.createObjectURL(blob);
+        const historyUrl = URL.createObjectURL(blob);
+
+        updateItem(item.id, {
+          status: 'done',
+          result: {
+            blob,
+            url,
+            originalSize: item.file.size,
+            newSize: blob.size,
+            width,
+            height,
+            mimeType,
+            quality,
+            ssim,
+            targetSize: kb * 1024,
+            targetRange,
+            status,
+            reason,
+            adjustment,
+            transparency,
+            downscaledFrom,
+            formatChoice
+          }
+        });
+
+        const newItem: HistoryItem = {
+          id: `${Date.now()}-${item.id}`,
+          url: historyUrl,
+          fileName: item.file.name,
+          originalSize: item.file.size,
+          newSize: blob.size,
+          mimeType,
+          timestamp: Date.now()
+        };
+        addToHistory(newItem, blob);
+        succeeded++;
+        if (status !== 'met') missed++;
+      } catch (error) {
+        // Cancelled: this image goes back to the queue, the rest aren't started
+        if (isAbortError(error)) {
+          updateItem(item.id, { status: 'pending' });
+          cancelled = true;
+          break;
+        }
+        console.error(error);
+        updateItem(item.id, {
+          status: 'error',
+          error: isPipelineError(error) ? error.message : 'Failed to process image.',
+        });
+        failed++;
+      }
+    }
+
+    if (abortRef.current === controller) abortRef.current = null;
+    setIsBatchRunning(false);
+    if (cancelled) {
+      setToast({ type: 'warning', text: `Cancelled after ${succeeded} of ${batchItems.length} images` });
+    } else if (failed > 0) {
+      setToast({ type: 'error', text: `${succeeded} resized, ${failed} failed` });
+    } else if (missed > 0) {
+      setToast({ type: 'warning', text: `${succeeded} resized, ${missed} missed the target size` });
+    } else {
+      setToast({ type: 'success', text: `${succeeded} images resized successfully!` });
+    }
+  };
+
+  const getBatchFileName = (item: BatchItem) => {
+    const size = item.result?.newSize || 0;
+    const ext = getExtensionForMime(item.result?.mimeType || 'image/jpeg');
+    return `${getBaseName(item.file.name)}_${Math.round(size / 1024)}kb.${ext}`;
+  };
+
+  const handleBatchDownloadItem = (item: BatchItem) => {
+    if (!item.result) return;
+    downloadUrl(item.result.url, getBatchFileName(item));
+  };
+
+  const handleBatchDownloadZip = async () => {
+    const done = batchItems.filter(item => item.status === 'done' && item.result);
+    if (done.length === 0) return;
+
+    try {
+      const names = uniqueZipNames(done.map(getBatchFileName));
+      const zip = await createZip(done.map((item, index) => ({
+        name: names[index],
+        blob: item.result!.blob,
+      })));
+      const url = URL.createObjectURL(zip);
+      downloadUrl(url, `pic_resize_batch_${Date.now()}.zip`);
+      // Give the browser a moment to start the download before releasing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setToast({ type: 'success', text: `ZIP with ${done.length} images saved` });
+    } catch (error) {
+      console.error(error);
+      setToast({ type: 'error', text: 'Failed to create ZIP file' });
+    }
+  };
+
+  // Combines all batch images into one PDF whose total size is the target
+  const handleCreatePdf = async () => {
+    const settings = getCompressionSettings();
+    if (!settings) return;
+    const { kb, options } = settings;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBatchRunning(true);
+    try {
+      const { blob, pages, status } = await exportPdfToTarget(batchItems.map(item => item.file), kb, {
+        ...pdfOptions,
+        compression: options,
+        onProgress: setPdfProgress,
+        signal: controller.signal,
+      });
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, `pic_resize_${pages.length}_pages_${Math.round(blob.size / 1024)}kb.pdf`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setToast(status === 'met'
+        ? { type: 'success', text: `PDF with ${pages.length} pages saved (${formatFileSize(blob.size)})` }
+        : { type: 'warning', text: `PDF saved, but at ${formatFileSize(blob.size)} it is over ${kb} KB. Try fewer pages or a larger target.` });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      setToast({ type: 'error', text: isPipelineError(error) ? error.message : 'Failed to create the PDF' });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsBatchRunning(false);
+      setPdfProgress(null);
+    }
+  };
+
+  const moveBatchItem = (id: string, offset: -1 | 1) => {
+    setBatchItems(prev => {
+      const from = prev.findIndex(item => item.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const removeBatchItem = (id: string) => {
+    const remaining = batchItems.filter(item => item.id !== id);
+    setBatchItems(remaining);
+    if (remaining.length === 0) {
+      handleReset();
     }
   };
 
-  const handleDownload = (itemUrl?: string, itemSize?: number) => {
+  const handleDownload = (itemUrl?: string, itemSize?: number, itemMimeType?: string) => {
     const urlToDownload = itemUrl || result?.url;
     const size = itemSize || result?.newSize || 0;
+    const ext = getExtensionForMime(itemMimeType || result?.mimeType || 'image/jpeg');
     
     if (!urlToDownload) return;
     
-    const link = document.createElement('a');
-    link.href = urlToDownload;
-    link.download = `pic_resize_${Math.round(size / 1024)}kb_${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadUrl(urlToDownload, `pic_resize_${Math.round(size / 1024)}kb_${Date.now()}.${ext}`);
     
     if (!itemUrl) {
       setDownloaded(true);
@@ -236,11 +895,35 @@ const App: React.FC = () => {
     setToast({ type: 'success', text: 'Your image is saved to your gallery' });
   };
 
+  const getMultiResultName = (item: ProcessedImage) =>
+    `${getBaseName(fileName)}_${Math.round(item.targetSize / 1024)}kb.${getExtensionForMime(item.mimeType)}`;
+
+  const handleMultiDownloadZip = async () => {
+    try {
+      const names = uniqueZipNames(multiResults.map(getMultiResultName));
+      const zip = await createZip(multiResults.map((item, index) => ({ name: names[index], blob: item.blob })));
+      const url = URL.createObjectURL(zip);
+      downloadUrl(url, `${getBaseName(fileName)}_sizes.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setToast({ type: 'success', text: `ZIP with ${multiResults.length} images saved` });
+    } catch (error) {
+      console.error(error);
+      setToast({ type: 'error', text: 'Failed to create ZIP file' });
+    }
+  };
+
   const handleReset = () => {
+    abortRef.current?.abort();
+    revokeBatchUrls();
+    setBatchItems([]);
     setState(AppState.IDLE);
     setOriginalFile(null);
+    setPreviewSource(null);
+    setEditHistory(emptyEditHistory);
+    setOversizedSource(null);
     setResult(null);
-    setTargetKB('');
+    clearMultiResults();
+    clearPreset();
     setIsCropping(false);
     setDownloaded(false);
   };
@@ -248,6 +931,7 @@ const App: React.FC = () => {
   const handleRetrySameImage = () => {
       setState(AppState.SELECTED);
       setResult(null);
+      clearMultiResults();
       setDownloaded(false);
   }
 
@@ -258,9 +942,36 @@ const App: React.FC = () => {
       URL.revokeObjectURL(itemToDelete.url);
     }
     setHistory(prev => prev.filter(item => item.id !== id));
+    deleteHistoryRecord(id).catch(error => console.warn('Could not delete history item', error));
     setToast({ type: 'success', text: 'Removed from history' });
   };
 
+  const clearHistory = () => {
+    if (history.length === 0) return;
+    if (!window.confirm('Remove all saved images from history?')) return;
+
+    history.forEach(item => URL.revokeObjectURL(item.url));
+    setHistory([]);
+    clearHistoryRecords().catch(error => console.warn('Could not clear history', error));
+    setToast({ type: 'success', text: 'History cleared' });
+  };
+
+  const changeHistoryQuota = (mb: number) => {
+    setHistoryQuotaMB(mb);
+    setHistoryQuotaMBState(mb);
+    enforceHistoryQuota(mb)
+      .then(removeFromHistoryState)
+      .catch(error => console.warn('Could not apply history quota', error));
+  };
+
+  // The several-sizes banner takes its look from the results: red when none met its target
+  const multiMetCount = multiResults.filter(item => item.status === 'met').length;
+  const multiBanner = resultBanners[
+    multiMetCount === multiResults.length ? 'met'
+    : multiMetCount === 0 && multiResults.some(item => item.status === 'failed') ? 'failed'
+    : 'best-effort'
+  ];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-green-100 dark:from-slate-900 dark:via-slate-900 dark:to-slate-800 flex items-center justify-center p-4 transition-colors duration-300">
       {/* Container that simulates a mobile screen/compact card */}
@@ -353,7 +1064,7 @@ const App: React.FC = () => {
                 <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Resize Images Fast</h2>
                 <p className="text-slate-500 dark:text-slate-400 text-sm">Select an image, crop it, and choose your target size in KB.</p>
                </div>
-              <ImageUploader onImageSelect={handleImageSelect} />
+              <ImageUploader onImageSelect={handleImageSelect} onImagesSelect={handleImagesSelect} />
             </div>
           )}
 
@@ -362,33 +1073,30 @@ const App: React.FC = () => {
             <div className="flex flex-col gap-5 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-4">
                 <div className="bg-white dark:bg-slate-700 p-3 rounded-2xl shadow-sm border border-green-50 dark:border-slate-600">
                    {isCropping ? (
-                     <div className="flex flex-col gap-3">
-                       <ReactCrop
-                         crop={crop}
-                         onChange={(_, percentCrop) => setCrop(percentCrop)}
-                         onComplete={(c) => setCompletedCrop(c)}
-                         className="max-h-[40vh] object-contain bg-slate-900 rounded-lg"
-                       >
-                         <img 
-                           ref={imgRef}
-                           src={previewUrl} 
-                           alt="Crop me" 
-                           onLoad={onImageLoad}
-                           className="max-w-full h-auto"
-                         />
-                       </ReactCrop>
-                       <div className="grid grid-cols-2 gap-2">
-                         <Button variant="secondary" onClick={() => setIsCropping(false)} className="py-2 text-sm">Cancel</Button>
-                         <Button variant="primary" onClick={performCrop} className="py-2 text-sm">Apply</Button>
-                       </div>
-                     </div>
+                     <CropEditor
+                       imageUrl={previewUrl}
+                       aspect={cropAspect}
+                       onAspectChange={setCropAspect}
+                       onEdit={(operation) => setEditHistory(history => pushEdit(history, operation))}
+                       onApply={(operation) => {
+                         if (operation) setEditHistory(history => pushEdit(history, operation));
+                         setIsCropping(false);
+                       }}
+                       onCancel={() => {
+                         setEditHistory(cropStartRef.current);
+                         setIsCropping(false);
+                       }}
+                     />
                    ) : (
                      <>
                        <div className="relative bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden mb-3 flex items-center justify-center min-h-[150px]">
                          <img src={previewUrl} alt="Original" className="max-w-full max-h-[35vh] object-contain" />
                          
                          <button 
-                           onClick={() => setIsCropping(true)}
+                           onClick={() => {
+                             cropStartRef.current = editHistory;
+                             setIsCropping(true);
+                           }}
                            className="absolute bottom-2 right-2 bg-black/70 text-white px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md hover:bg-black/80 transition-colors flex items-center gap-1.5"
                          >
                             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
@@ -397,6 +1105,14 @@ const App: React.FC = () => {
                             Crop
                          </button>
                        </div>
+
+                       <div className="px-2 mb-3">
+                         <EditToolbar
+                           history={editHistory}
+                           onChange={setEditHistory}
+                           disabled={state === AppState.PROCESSING}
+                         />
+                       </div>
                        
                        <div className="flex items-center justify-between px-2">
                           <div>
@@ -416,54 +1132,344 @@ const App: React.FC = () => {
 
               {!isCropping && (
                 <div className="bg-white dark:bg-slate-700 p-5 rounded-2xl shadow-sm border border-green-50 dark:border-slate-600">
-                   <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
-                     Target File Size (KB)
-                   </label>
-                   <div className="relative mb-5">
-                     <input 
-                       type="number" 
-                       inputMode="decimal"
-                       value={targetKB}
-                       onChange={(e) => setTargetKB(e.target.value)}
-                       placeholder="e.g. 50"
-                       className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl px-4 py-3 text-lg font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent placeholder:text-slate-300 transition-all"
+                   <div className="mb-5">
+                     <PresetPicker
+                       presets={allPresets}
+                       selectedId={selectedPresetId}
+                       onSelect={applyPreset}
+                       onSaveCurrent={saveCurrentAsPreset}
+                       onDelete={deletePreset}
+                       onImport={importPresets}
+                       onExport={exportPresets}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <TargetSizeInput
+                       rangeMode={rangeMode}
+                       onRangeModeChange={handleRangeModeChange}
+                       maxKB={targetKB}
+                       onMaxKBChange={setTargetKB}
+                       minKB={minKB}
+                       onMinKBChange={setMinKB}
+                       undersizeStrategy={undersizeStrategy}
+                       onUndersizeStrategyChange={setUndersizeStrategy}
+                       multiMode={multiTargetMode}
+                       onMultiModeChange={handleMultiTargetModeChange}
+                       targetList={targetList}
+                       onTargetListChange={setTargetList}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <FormatSelector
+                       value={outputFormat}
+                       onChange={setOutputFormat}
+                       autoFormats={autoFormats}
+                       onAutoFormatsChange={setAutoFormats}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <DimensionsInput
+                       value={dimensionsInput}
+                       onChange={setDimensionsInput}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <DocumentSettings
+                       value={documentOptions}
+                       onChange={setDocumentOptions}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <StampSettings
+                       value={stampOptions}
+                       onChange={setStampOptions}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   <div className="mb-5">
+                     <ResamplingSelector
+                       value={resampling}
+                       onChange={setResampling}
+                       disabled={state === AppState.PROCESSING}
+                     />
+                   </div>
+
+                   {sourceHasAlpha && (
+                     <div className="mb-5">
+                       <TransparencySettings
+                         value={transparencyOptions}
+                         onChange={setTransparencyOptions}
+                         alphaOutput={outputFormat === 'auto'
+                           ? autoFormats.some(supportsAlpha)
+                           : supportsAlpha(resolveOutputType(outputFormat, originalFile?.type || ''))}
+                         disabled={state === AppState.PROCESSING}
+                       />
+                     </div>
+                   )}
+
+                   <div className="mb-5">
+                     <MetadataSettings
+                       value={metadataOptions}
+                       onChange={setMetadataOptions}
+                       summary={exif ? summarizeExif(exif) : null}
+                       jpegOutput={outputFormat === 'auto'
+                         ? autoFormats.includes('image/jpeg')
+                         : resolveOutputType(outputFormat, originalFile?.type || '') === 'image/jpeg'}
+                       disabled={state === AppState.PROCESSING}
                      />
-                     <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-sm">KB</span>
                    </div>
                    
-                   <Button 
-                     fullWidth 
-                     onClick={handleResize}
-                     disabled={state === AppState.PROCESSING || !targetKB}
-                     variant="primary"
-                     className="shadow-green-500/20"
-                   >
-                     {state === AppState.PROCESSING ? 'Processing...' : 'Resize Image'}
-                   </Button>
+                   {oversizedSource && (
+                     <p className="text-[11px] text-amber-600 dark:text-amber-400 mb-3">
+                       This image is {oversizedSource.width} × {oversizedSource.height} px, more than this browser can process.
+                       It will be scaled down to {oversizedSource.fitWidth} × {oversizedSource.fitHeight} px first.
+                     </p>
+                   )}
+
+                   {state === AppState.PROCESSING ? (
+                     <CompressionProgressBar
+                       progress={progress}
+                       onCancel={cancelResize}
+                       step={multiStep ? `${multiStep.kb} KB (${multiStep.current} of ${multiStep.total})` : undefined}
+                     />
+                   ) : (
+                     <Button 
+                       fullWidth 
+                       onClick={handleResize}
+                       disabled={multiTargetMode ? !targetList.trim() : !targetKB}
+                       variant="primary"
+                       className="shadow-green-500/20"
+                     >
+                       {multiTargetMode ? 'Make All Sizes' : 'Resize Image'}
+                     </Button>
+                   )}
                 </div>
               )}
             </div>
           )}
 
+          {/* Batch Mode */}
+          {state === AppState.BATCH && batchItems.length > 0 && (
+            <div className="flex flex-col gap-4 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-4">
+              <div className="bg-white dark:bg-slate-700 p-4 rounded-2xl shadow-sm border border-green-50 dark:border-slate-600">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Batch</p>
+                    <p className="text-sm font-bold text-slate-800 dark:text-slate-200">
+                      {batchItems.filter(item => item.status === 'done').length} / {batchItems.length} resized
+                    </p>
+                  </div>
+                  <button 
+                    onClick={handleReset}
+                    disabled={isBatchRunning}
+                    className="text-xs text-red-500 font-semibold bg-red-50 dark:bg-red-900/30 px-2 py-1 rounded-md hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors disabled:opacity-50"
+                  >
+                    Change
+                  </button>
+                </div>
+                <BatchQueue
+                  items={batchItems}
+                  onDownload={handleBatchDownloadItem}
+                  onRemove={removeBatchItem}
+                  onMove={moveBatchItem}
+                  locked={isBatchRunning}
+                />
+              </div>
+
+              <div className="bg-white dark:bg-slate-700 p-5 rounded-2xl shadow-sm border border-green-50 dark:border-slate-600">
+                <div className="mb-5">
+                  <PresetPicker
+                    presets={allPresets}
+                    selectedId={selectedPresetId}
+                    onSelect={applyPreset}
+                    onSaveCurrent={saveCurrentAsPreset}
+                    onDelete={deletePreset}
+                    onImport={importPresets}
+                    onExport={exportPresets}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <TargetSizeInput
+                    label="Target File Size for All (KB)"
+                    rangeMode={rangeMode}
+                    onRangeModeChange={handleRangeModeChange}
+                    maxKB={targetKB}
+                    onMaxKBChange={setTargetKB}
+                    minKB={minKB}
+                    onMinKBChange={setMinKB}
+                    undersizeStrategy={undersizeStrategy}
+                    onUndersizeStrategyChange={setUndersizeStrategy}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <FormatSelector
+                    value={outputFormat}
+                    onChange={setOutputFormat}
+                    autoFormats={autoFormats}
+                    onAutoFormatsChange={setAutoFormats}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <DimensionsInput
+                    value={dimensionsInput}
+                    onChange={setDimensionsInput}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <DocumentSettings
+                    value={documentOptions}
+                    onChange={setDocumentOptions}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <StampSettings
+                    value={stampOptions}
+                    onChange={setStampOptions}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <ResamplingSelector
+                    value={resampling}
+                    onChange={setResampling}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <TransparencySettings
+                    value={transparencyOptions}
+                    onChange={setTransparencyOptions}
+                    alphaOutput={outputFormat === 'image/webp' || outputFormat === 'image/png' || (outputFormat === 'auto' && autoFormats.some(supportsAlpha))}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="mb-5">
+                  <MetadataSettings
+                    value={metadataOptions}
+                    onChange={setMetadataOptions}
+                    jpegOutput={outputFormat === 'image/jpeg' || outputFormat === 'original' || (outputFormat === 'auto' && autoFormats.includes('image/jpeg'))}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Button 
+                    fullWidth 
+                    onClick={handleBatchResize}
+                    disabled={isBatchRunning || !targetKB || batchItems.every(item => item.status === 'done')}
+                    variant="primary"
+                    className="shadow-green-500/20"
+                  >
+                    {isBatchRunning && !pdfProgress ? 'Processing...' : `Resize ${batchItems.filter(item => item.status !== 'done').length} Images`}
+                  </Button>
+                  {isBatchRunning && !pdfProgress && (
+                    <Button fullWidth onClick={cancelResize} variant="secondary">
+                      Cancel
+                    </Button>
+                  )}
+                  {batchItems.some(item => item.status === 'done') && (
+                    <Button 
+                      fullWidth 
+                      onClick={handleBatchDownloadZip}
+                      disabled={isBatchRunning}
+                      variant="outline"
+                    >
+                      Download All as ZIP
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-slate-700 p-5 rounded-2xl shadow-sm border border-green-50 dark:border-slate-600">
+                <div className="mb-4">
+                  <PdfExportSettings
+                    value={pdfOptions}
+                    onChange={setPdfOptions}
+                    disabled={isBatchRunning}
+                  />
+                </div>
+                <Button
+                  fullWidth
+                  onClick={handleCreatePdf}
+                  disabled={isBatchRunning || !targetKB}
+                  variant="outline"
+                >
+                  {pdfProgress
+                    ? `${pdfProgress.round > 0 ? 'Refining' : 'Compressing'} page ${pdfProgress.page + 1} of ${pdfProgress.pageCount}...`
+                    : `Combine into PDF${targetKB ? ` (max ${targetKB} KB)` : ''}`}
+                </Button>
+                {pdfProgress && (
+                  <Button fullWidth onClick={cancelResize} variant="secondary" className="mt-2">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Step 3: Result - Full Height Layout */}
           {state === AppState.COMPLETED && result && (
             <div className="flex flex-col h-full animate-in zoom-in-95 duration-300 pb-2 gap-3">
-               {/* Success Banner */}
-               <div className="bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 px-4 py-2 rounded-xl flex items-center justify-center gap-2 flex-shrink-0 shadow-sm border border-green-200 dark:border-green-800">
+               {/* Status Banner */}
+               <div className={`px-4 py-2 rounded-xl flex items-center justify-center gap-2 flex-shrink-0 shadow-sm border ${resultBanners[result.status].className}`}>
                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-                    <path fillRule="evenodd" d="M2.25 12c0-5.385 4.365-9.75 9.75-9.75s9.75 4.365 9.75 9.75-4.365 9.75-9.75 9.75S2.25 17.385 2.25 12zm13.36-1.814a.75.75 0 10-1.22-.872l-3.236 4.53L9.53 12.22a.75.75 0 00-1.06 1.06l2.25 2.25a.75.75 0 001.14-.094l3.75-5.25z" clipRule="evenodd" />
+                    <path fillRule="evenodd" d={resultBanners[result.status].icon} clipRule="evenodd" />
                   </svg>
-                  <span className="font-bold text-sm">Resized Successfully!</span>
+                  <span className="font-bold text-sm">{resultBanners[result.status].label}</span>
                </div>
 
                {/* Image Preview - Takes up maximum space available */}
-               <div className="flex-1 bg-slate-50 dark:bg-slate-900/50 rounded-2xl border border-slate-100 dark:border-slate-700 relative overflow-hidden min-h-[200px]">
-                  <img 
-                    src={result.url} 
-                    alt="Resized Result" 
-                    className="absolute inset-0 w-full h-full object-contain p-2" 
-                  />
-               </div>
+               {showCompare && previewUrl ? (
+                 <div className="flex-1 min-h-[260px] flex flex-col">
+                    <CompareViewer beforeUrl={previewUrl} afterUrl={result.url} />
+                    <button 
+                      onClick={() => setShowCompare(false)}
+                      className="mt-1 text-xs font-semibold text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                    >
+                      Close comparison
+                    </button>
+                 </div>
+               ) : (
+                 <div className="flex-1 bg-slate-50 dark:bg-slate-900/50 rounded-2xl border border-slate-100 dark:border-slate-700 relative overflow-hidden min-h-[200px]">
+                    <img 
+                      src={result.url} 
+                      alt="Resized Result" 
+                      className="absolute inset-0 w-full h-full object-contain p-2" 
+                    />
+                    {previewUrl && (
+                      <button 
+                        onClick={() => setShowCompare(true)}
+                        className="absolute bottom-2 right-2 bg-black/70 text-white px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md hover:bg-black/80 transition-colors"
+                      >
+                        Compare
+                      </button>
+                    )}
+                 </div>
+               )}
 
                {/* Stats Card */}
                <div className="bg-white dark:bg-slate-700 border border-green-100 dark:border-slate-600 rounded-2xl p-4 shadow-md flex-shrink-0">
@@ -471,11 +1477,39 @@ const App: React.FC = () => {
                      <span className="text-xs text-slate-400 uppercase font-bold tracking-wider">Original</span>
                      <span className="text-sm text-slate-500 dark:text-slate-300 font-medium line-through decoration-red-400">{formatFileSizeDual(result.originalSize)}</span>
                   </div>
+                  <div className="flex items-center justify-between mb-2">
+                     <span className="text-xs text-slate-400 uppercase font-bold tracking-wider">Dimensions</span>
+                     <span className="text-sm text-slate-600 dark:text-slate-300 font-medium">{result.width} × {result.height} px</span>
+                  </div>
+                  <div className="flex items-center justify-between mb-2">
+                     <span className="text-xs text-slate-400 uppercase font-bold tracking-wider">Quality</span>
+                     <span className="text-sm text-slate-600 dark:text-slate-300 font-medium" title="SSIM compares the result with the original; 1.000 means identical">
+                       {Math.round(result.quality * 100)}% · SSIM {result.ssim.toFixed(3)}
+                     </span>
+                  </div>
                   <div className="w-full h-px bg-slate-100 dark:bg-slate-600 mb-2"></div>
                   <div className="flex flex-col items-center justify-center bg-green-50 dark:bg-green-900/20 rounded-xl p-2 border border-green-100 dark:border-green-800">
                      <span className="text-xs text-green-600 dark:text-green-400 uppercase font-bold tracking-wider">Result Size</span>
                      <span className="text-xl font-black text-green-700 dark:text-green-300">{formatFileSizeDual(result.newSize)}</span>
                   </div>
+                  {result.status !== 'met' ? (
+                    <ResultStatus result={result} />
+                  ) : result.targetRange && (
+                    <RangeStatus result={result} />
+                  )}
+                  <FormatChoiceNote result={result} />
+                  {result.transparency && (
+                    <p className="text-[11px] text-slate-400 mt-2 text-center">
+                      {result.transparency === 'kept'
+                        ? `Transparency kept (saved as ${getExtensionForMime(result.mimeType).toUpperCase()})`
+                        : 'Transparent areas were filled with the background colour'}
+                    </p>
+                  )}
+                  {result.downscaledFrom && (
+                    <p className="text-[11px] text-amber-600 dark:text-amber-400 mt-2 text-center">
+                      Scaled down from {result.downscaledFrom.width} × {result.downscaledFrom.height} px, the most this browser can process
+                    </p>
+                  )}
                </div>
 
                {/* Actions */}
@@ -510,6 +1544,49 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Step 3 (several targets): comparison grid */}
+          {state === AppState.COMPLETED && multiResults.length > 0 && (
+            <div className="flex flex-col animate-in zoom-in-95 duration-300 pb-4 gap-3">
+               <div className={`px-4 py-2 rounded-xl flex items-center justify-center gap-2 flex-shrink-0 shadow-sm border ${multiBanner.className}`}>
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                    <path fillRule="evenodd" d={multiBanner.icon} clipRule="evenodd" />
+                  </svg>
+                  <span className="font-bold text-sm">
+                    {multiMetCount === multiResults.length
+                      ? `${multiResults.length} sizes ready`
+                      : `${multiMetCount} of ${multiResults.length} sizes met`}
+                  </span>
+               </div>
+
+               <TargetComparisonGrid
+                 results={multiResults}
+                 onDownload={(item) => downloadUrl(item.url, getMultiResultName(item))}
+               />
+
+               <div className="space-y-2 flex-shrink-0">
+                  <Button fullWidth onClick={handleMultiDownloadZip} variant="primary">
+                    Download All as ZIP
+                  </Button>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button 
+                      variant="secondary" 
+                      onClick={handleRetrySameImage}
+                      className="py-2 text-xs font-bold bg-green-50 dark:bg-slate-700 text-green-700 dark:text-green-300 border border-green-100 dark:border-slate-600"
+                    >
+                      Resize Again
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={handleReset}
+                      className="py-2 text-xs font-bold border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white"
+                    >
+                      Choose Another
+                    </Button>
+                  </div>
+               </div>
+            </div>
+          )}
+
           {/* History Modal */}
           {showHistory && (
             <div className="absolute inset-0 z-40 bg-white dark:bg-slate-800 animate-in slide-in-from-right duration-300 flex flex-col">
@@ -550,6 +1627,33 @@ const App: React.FC = () => {
                 >
                   {historySort === 'newest' ? 'Newest ↓' : 'Oldest ↑'}
                 </button>
+                <button
+                  onClick={clearHistory}
+                  disabled={history.length === 0}
+                  className="p-2 bg-red-50 dark:bg-red-900/20 text-red-500 dark:text-red-400 border border-red-100 dark:border-red-900/40 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Clear all history"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                    <path fillRule="evenodd" d="M16.5 4.478v.227a48.816 48.816 0 013.878.512.75.75 0 11-.49 1.478l-.56 12.29c-.03.816-.7 1.479-1.516 1.479H6.165c-.816 0-1.486-.663-1.516-1.479l-.56-12.29a48.816 48.816 0 01-3.458-.512.75.75 0 11.49-1.478 48.53 48.53 0 013.96-.512V4.478C5.093 3.29 5.884 2.25 7.017 2.25h9.966c1.133 0 1.924 1.04 1.924 2.228zM9 7.5A.75.75 0 019.75 7.5v9a.75.75 0 01-1.5 0v-9A.75.75 0 019 7.5zm3 0a.75.75 0 01.75.75v9a.75.75 0 01-1.5 0v-9A.75.75 0 0112 7.5zm3 0a.75.75 0 01.75.75v9a.75.75 0 01-1.5 0v-9a.75.75 0 01.75-.75z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Storage Quota */}
+              <div className="px-4 py-2 border-b border-slate-50 dark:border-slate-700 flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                <span>Stored: {formatFileSizeDual(historyUsageBytes)}</span>
+                <label className="flex items-center gap-1">
+                  Limit
+                  <select
+                    value={historyQuotaMB}
+                    onChange={(e) => changeHistoryQuota(Number(e.target.value))}
+                    className="bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-md px-1 py-0.5 font-bold text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-green-500"
+                  >
+                    {HISTORY_QUOTA_OPTIONS_MB.map(mb => (
+                      <option key={mb} value={mb}>{mb} MB</option>
+                    ))}
+                  </select>
+                </label>
               </div>
 
               <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -590,7 +1694,7 @@ const App: React.FC = () => {
 
                        <div className="flex flex-col gap-2 py-1">
                           <button 
-                            onClick={() => handleDownload(item.url, item.newSize)}
+                            onClick={() => handleDownload(item.url, item.newSize, item.mimeType)}
                             className="p-2 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors"
                             title="Download again"
                           >
@@ -619,7 +1723,9 @@ const App: React.FC = () => {
         {/* Toast */}
         {toast && (
           <div className={`absolute bottom-6 left-1/2 -translate-x-1/2 w-[90%] max-w-[300px] px-4 py-3 rounded-xl shadow-2xl z-50 transition-all duration-300 animate-in slide-in-from-bottom-5 fade-in ${
-            toast.type === 'success' ? 'bg-slate-800 dark:bg-white text-white dark:text-slate-900' : 'bg-red-500 text-white'
+            toast.type === 'success'
+              ? 'bg-slate-800 dark:bg-white text-white dark:text-slate-900'
+              : toast.type === 'warning' ? 'bg-amber-500 text-white' : 'bg-red-500 text-white'
           }`}>
             <div className="flex items-center justify-center gap-2 text-center">
                {toast.type === 'success' && (
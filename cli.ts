@@ -0,0 +1,258 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { searchWithBackend, BackendSearchOptions } from './utils/imageProcessor';
+import { createPixelBackend, decodePixelSource } from './utils/pixelBackend';
+import { formatFileSize, getBaseName, getExtensionForMime } from './utils/fileHelpers';
+import { isPipelineError } from './utils/errors';
+import { OutputFormat, TargetMissReason } from './types';
+
+// Command-line entry point: the web app's size search on local files, through the pixel
+// backend. Build it with `npm run build:cli`, then run `node dist-cli/cli.js photo.jpg --kb 50`.
+
+const USAGE = `Usage: picresize <input...> --kb <size> [options]
+
+Compresses images to fit under a file size, with the same search as the web app.
+Inputs can be files, folders or quoted glob patterns such as "photos/**/*.jpg".
+
+Options:
+  --kb <size>        Largest accepted size, in KB (required)
+  --min-kb <size>    Smallest accepted size, in KB; smaller results are padded
+  --format <format>  jpeg (default), png, original or auto
+  --background <hex> Fill transparent areas with this colour, e.g. #ffffff.
+                     Without it transparency is kept, except in JPEG (white)
+  --out <path>       Output file, or folder when there are several inputs.
+                     Defaults to <name>_<size>kb.<ext> next to each input.
+                     Nothing is written for an image that can't get under --kb
+  -h, --help         Show this help
+`;
+
+const FORMATS: Record<string, OutputFormat> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  original: 'original',
+  auto: 'auto',
+};
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|bmp|tiff?|heic|heif)$/i;
+
+const MISS_REASONS: Record<TargetMissReason, string> = {
+  'dimensions-locked': 'too large at these dimensions',
+  lossless: 'PNG only shrinks by scaling, and the smallest is still too large',
+  'minimum-quality': 'too large even at the lowest quality',
+  'below-minimum': 'below the minimum size',
+};
+
+interface CliOptions {
+  inputs: string[];
+  kb: number;
+  minKb?: number;
+  format: OutputFormat;
+  background?: string;
+  out?: string;
+}
+
+class UsageError extends Error {}
+
+const parseSize = (flag: string, value: string | undefined): number => {
+  const size = Number(value);
+  if (!value || !isFinite(size) || size <= 0) throw new UsageError(`${flag} needs a size in KB`);
+  return size;
+};
+
+const parseArgs = (args: string[]): CliOptions | null => {
+  const inputs: string[] = [];
+  let kb: number | undefined;
+  let minKb: number | undefined;
+  let format: OutputFormat = 'image/jpeg';
+  let background: string | undefined;
+  let out: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null;
+      case '--kb':
+        kb = parseSize(arg, args[++i]);
+        break;
+      case '--min-kb':
+        minKb = parseSize(arg, args[++i]);
+        break;
+      case '--format': {
+        const value = args[++i]?.toLowerCase() ?? '';
+        if (value === 'webp') throw new UsageError('WebP output needs a browser; use the web app or choose jpeg or png');
+        if (!FORMATS[value]) throw new UsageError(`Unknown format "${value}"`);
+        format = FORMATS[value];
+        break;
+      }
+      case '--background': {
+        const value = args[++i] ?? '';
+        if (!/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) throw new UsageError('--background needs a hex colour such as #ffffff');
+        background = value.startsWith('#') ? value : `#${value}`;
+        break;
+      }
+      case '--out':
+        out = args[++i];
+        if (!out) throw new UsageError('--out needs a path');
+        break;
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+        inputs.push(arg);
+    }
+  }
+
+  if (!inputs.length) throw new UsageError('No input files given');
+  if (kb === undefined) throw new UsageError('--kb is required');
+  if (minKb !== undefined && minKb >= kb) throw new UsageError('--min-kb must be below --kb');
+  return { inputs, kb, minKb, format, background, out };
+};
+
+const hasWildcards = (segment: string) => /[*?[]/.test(segment);
+
+const segmentPattern = (segment: string): RegExp =>
+  new RegExp(`^${segment.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+/**
+ * Expands a glob pattern: `*` and `?` within a path segment, `**` for any number of folders.
+ * Hidden files only match patterns that start with a dot.
+ */
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.split(/[\\/]+/);
+  const first = segments.findIndex(hasWildcards);
+  const base = segments.slice(0, first).join('/') || (pattern.startsWith('/') ? '/' : '.');
+
+  const walk = async (dir: string, rest: string[]): Promise<string[]> => {
+    if (!rest.length) return [dir];
+    const [segment, ...tail] = rest;
+    if (!hasWildcards(segment)) return walk(path.join(dir, segment), tail);
+
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    if (segment === '**') {
+      const nested = await Promise.all(entries
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map(entry => walk(path.join(dir, entry.name), rest)));
+      return [...await walk(dir, tail), ...nested.flat()];
+    }
+
+    const matcher = segmentPattern(segment);
+    const matches = entries.filter(entry =>
+      matcher.test(entry.name) && (segment.startsWith('.') || !entry.name.startsWith('.')) && (!tail.length || entry.isDirectory())
+    );
+    return (await Promise.all(matches.map(entry => walk(path.join(dir, entry.name), tail)))).flat();
+  };
+
+  return walk(base, segments.slice(first));
+};
+
+const isFile = (file: string) => stat(file).then(info => info.isFile(), () => false);
+
+/**
+ * Turns the inputs into a list of files: folders give the images directly inside them.
+ */
+const collectFiles = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (hasWildcards(input)) {
+      const matches = await expandGlob(input);
+      const existing = (await Promise.all(matches.map(async file => (await isFile(file)) ? file : null))).filter(Boolean) as string[];
+      if (!existing.length) throw new UsageError(`Nothing matches ${input}`);
+      files.push(...existing.sort());
+      continue;
+    }
+
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`${input} does not exist`);
+    if (info.isDirectory()) {
+      const names = (await readdir(input)).filter(name => IMAGE_EXTENSIONS.test(name)).sort();
+      files.push(...names.map(name => path.join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+  return Array.from(new Set(files));
+};
+
+const outputPath = async (input: string, options: CliOptions, multiple: boolean, mimeType: string, size: number): Promise<string> => {
+  const name = `${getBaseName(path.basename(input))}_${Math.round(size / 1024)}kb.${getExtensionForMime(mimeType)}`;
+  if (!options.out) return path.join(path.dirname(input), name);
+
+  const isFolder = multiple || /[\\/]$/.test(options.out) || (await stat(options.out).then(info => info.isDirectory(), () => false));
+  if (!isFolder) {
+    // The extension follows the format written, e.g. the one auto picked
+    const extension = getExtensionForMime(mimeType);
+    const matches = extension === 'jpg' ? /\.jpe?g$/i : new RegExp(`\\.${extension}$`, 'i');
+    return matches.test(options.out) ? options.out : `${path.join(path.dirname(options.out), getBaseName(path.basename(options.out)))}.${extension}`;
+  }
+  await mkdir(options.out, { recursive: true });
+  return path.join(options.out, name);
+};
+
+const main = async (): Promise<number> => {
+  let options: CliOptions | null;
+  let files: string[];
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (!options) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    files = await collectFiles(options.inputs);
+    if (!files.length) throw new UsageError('No images found');
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const backend = createPixelBackend();
+  const search: BackendSearchOptions = {
+    format: options.format,
+    // The pixel backend has no WebP encoder
+    autoFormats: ['image/jpeg', 'image/png'],
+    minSizeKB: options.minKb,
+    undersizeStrategy: 'pad',
+    // Kept unless a background is given; JPEG can't hold it, and keeping it there would ask for WebP
+    transparency: {
+      mode: options.background || options.format === 'image/jpeg' ? 'flatten' : 'keep',
+      background: options.background ?? '#ffffff',
+    },
+  };
+  let failures = 0;
+
+  for (const file of files) {
+    try {
+      const { source, exif } = await decodePixelSource(new Blob([await readFile(file)]));
+      const result = await searchWithBackend(source, backend, options.kb, { ...search, exif });
+      const note = result.reason ? ` (${MISS_REASONS[result.reason]})` : '';
+      const details = `${formatFileSize(result.blob.size)}, ${result.width} × ${result.height} px, SSIM ${result.ssim.toFixed(3)}${note}`;
+
+      // An over-budget file is never written, so its presence always means success
+      if (result.status === 'failed') {
+        failures++;
+        process.stdout.write(`${file}: over budget, not written. Smallest was ${details}\n`);
+        continue;
+      }
+
+      const target = await outputPath(file, options, files.length > 1, result.mimeType, result.blob.size);
+      await writeFile(target, new Uint8Array(await result.blob.arrayBuffer()));
+      process.stdout.write(`${file} → ${target}: ${details}\n`);
+    } catch (error) {
+      failures++;
+      const message = isPipelineError(error) ? error.message : error instanceof Error ? error.stack || error.message : String(error);
+      process.stderr.write(`${file}: ${message}\n`);
+    }
+  }
+
+  return failures ? 1 : 0;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,123 @@
+import React from 'react';
+import { formatFileSize } from '../utils/fileHelpers';
+import { BatchItem, BatchStatus } from '../types';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onDownload: (item: BatchItem) => void;
+  onRemove: (id: string) => void;
+  /** Moves an item up (-1) or down (1). The order is also the page order of a PDF. */
+  onMove: (id: string, offset: -1 | 1) => void;
+  locked?: boolean;
+}
+
+const statusStyles: Record<BatchStatus, string> = {
+  pending: 'bg-slate-100 dark:bg-slate-600 text-slate-500 dark:text-slate-300',
+  processing: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  done: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  error: 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-300',
+};
+
+const statusLabels: Record<BatchStatus, string> = {
+  pending: 'Waiting',
+  processing: 'Resizing…',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const moveButtonClass = 'px-1 leading-none text-slate-400 hover:text-green-600 dark:hover:text-green-400 disabled:opacity-30 disabled:hover:text-slate-400 disabled:cursor-not-allowed';
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, onDownload, onRemove, onMove, locked = false }) => {
+  return (
+    <ul className="space-y-2">
+      {items.map((item, index) => (
+        <li
+          key={item.id}
+          className="bg-slate-50 dark:bg-slate-700/50 p-2 rounded-xl border border-slate-100 dark:border-slate-700 flex items-center gap-3"
+        >
+          {items.length > 1 && (
+            <div className="flex flex-col text-xs font-bold flex-shrink-0">
+              <button
+                onClick={() => onMove(item.id, -1)}
+                disabled={locked || index === 0}
+                className={moveButtonClass}
+                title="Move up"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => onMove(item.id, 1)}
+                disabled={locked || index === items.length - 1}
+                className={moveButtonClass}
+                title="Move down"
+              >
+                ▼
+              </button>
+            </div>
+          )}
+          <div className="w-12 h-12 rounded-lg bg-slate-200 dark:bg-slate-600 overflow-hidden flex-shrink-0">
+            {item.result && (
+              <img src={item.result.url} alt="" className="w-full h-full object-cover" />
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-bold text-slate-800 dark:text-white truncate">{item.file.name}</p>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+              {formatFileSize(item.file.size)}
+              {item.result && (
+                <>
+                  {' → '}
+                  <span className="font-bold text-green-600 dark:text-green-400">{formatFileSize(item.result.newSize)}</span>
+                </>
+              )}
+            </p>
+            {item.result?.status === 'failed' && (
+              <p className="text-[11px] text-red-500">Over target size</p>
+            )}
+            {item.result?.status === 'best-effort' && (
+              <p className="text-[11px] text-amber-600 dark:text-amber-400">Below minimum size</p>
+            )}
+            {item.result?.downscaledFrom && (
+              <p className="text-[11px] text-amber-600 dark:text-amber-400 truncate">
+                Scaled down from {item.result.downscaledFrom.width} × {item.result.downscaledFrom.height} px
+              </p>
+            )}
+            {item.error && (
+              <p className="text-[11px] text-red-500 truncate">{item.error}</p>
+            )}
+          </div>
+
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md flex-shrink-0 ${statusStyles[item.status]}`}>
+            {statusLabels[item.status]}
+          </span>
+
+          {item.status === 'done' ? (
+            <button
+              onClick={() => onDownload(item)}
+              className="p-2 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors flex-shrink-0"
+              title="Download"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                <path fillRule="evenodd" d="M12 2.25a.75.75 0 01.75.75v11.69l3.22-3.22a.75.75 0 111.06 1.06l-4.5 4.5a.75.75 0 01-1.06 0l-4.5-4.5a.75.75 0 111.06-1.06l3.22 3.22V3a.75.75 0 01.75-.75zm-9 13.5a.75.75 0 01.75.75v2.25a1.5 1.5 0 001.5 1.5h13.5a1.5 1.5 0 001.5-1.5V16.5a.75.75 0 011.5 0v2.25a3 3 0 01-3 3H5.25a3 3 0 01-3-3V16.5a.75.75 0 01.75-.75z" clipRule="evenodd" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={() => onRemove(item.id)}
+              disabled={locked}
+              className="p-2 bg-red-50 dark:bg-red-900/20 text-red-500 dark:text-red-400 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Remove from batch"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default BatchQueue;
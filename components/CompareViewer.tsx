@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../utils/fileHelpers';
+import { computePsnr, computeSsim, createDifferenceHeatmap } from '../utils/imageMetrics';
+
+interface CompareViewerProps {
+  beforeUrl: string;
+  afterUrl: string;
+}
+
+interface Metrics {
+  psnr: number;
+  ssim: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+// Metrics and the heatmap are computed at this resolution (long side)
+const COMPARE_MAX_SIDE = 1024;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Before/after viewer with a draggable split, synchronized zoom and pan,
+ * an optional difference heatmap and PSNR/SSIM readouts.
+ */
+const CompareViewer: React.FC<CompareViewerProps> = ({ beforeUrl, afterUrl }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heatmapRef = useRef<HTMLCanvasElement>(null);
+  const [split, setSplit] = useState(50);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [metrics, setMetrics] = useState<Metrics | null>(null);
+  const [heatmap, setHeatmap] = useState<ImageData | null>(null);
+
+  // Active pointers and what the current gesture is doing
+  const pointers = useRef<Map<number, Point>>(new Map());
+  const gesture = useRef<'split' | 'pan' | 'pinch' | null>(null);
+  const pinchStart = useRef<{ distance: number; view: View } | null>(null);
+
+  // Zooms around a point given in container coordinates, keeping that point fixed
+  const zoomAt = (nextZoom: number, px: number, py: number, from: View): View => {
+    const zoom = clampZoom(nextZoom);
+    if (zoom === MIN_ZOOM) return { zoom, x: 0, y: 0 };
+    const ratio = zoom / from.zoom;
+    return {
+      zoom,
+      x: px - (px - from.x) * ratio,
+      y: py - (py - from.y) * ratio,
+    };
+  };
+
+  // Compute metrics and heatmap from both images at a common size
+  useEffect(() => {
+    let cancelled = false;
+    setMetrics(null);
+    setHeatmap(null);
+
+    Promise.all([loadImage(beforeUrl), loadImage(afterUrl)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        const ratio = Math.min(1, COMPARE_MAX_SIDE / Math.max(after.naturalWidth, after.naturalHeight));
+        const width = Math.max(1, Math.round(after.naturalWidth * ratio));
+        const height = Math.max(1, Math.round(after.naturalHeight * ratio));
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+
+        ctx.drawImage(before, 0, 0, width, height);
+        const a = ctx.getImageData(0, 0, width, height);
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(after, 0, 0, width, height);
+        const b = ctx.getImageData(0, 0, width, height);
+
+        setMetrics({ psnr: computePsnr(a, b), ssim: computeSsim(a, b) });
+        setHeatmap(createDifferenceHeatmap(a, b));
+      })
+      .catch(error => console.error('Could not compare images', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeUrl, afterUrl]);
+
+  // Paint the heatmap canvas whenever it is shown
+  useEffect(() => {
+    const canvas = heatmapRef.current;
+    if (!canvas || !heatmap || !showHeatmap) return;
+    canvas.width = heatmap.width;
+    canvas.height = heatmap.height;
+    canvas.getContext('2d')?.putImageData(heatmap, 0, 0);
+  }, [heatmap, showHeatmap]);
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      setView(prev => zoomAt(prev.zoom * factor, e.clientX - rect.left, e.clientY - rect.top, prev));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const updateSplit = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const activePoints = (): Point[] => Array.from(pointers.current, ([, point]) => point);
+
+  const distance = () => {
+    const [a, b] = activePoints();
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2) {
+      gesture.current = 'pinch';
+      pinchStart.current = { distance: distance(), view };
+    } else if ((e.target as HTMLElement).dataset.handle) {
+      gesture.current = 'split';
+    } else {
+      gesture.current = 'pan';
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (gesture.current === 'split') {
+      updateSplit(e.clientX);
+    } else if (gesture.current === 'pan') {
+      const dx = e.clientX - previous.x;
+      const dy = e.clientY - previous.y;
+      setView(prev => prev.zoom === MIN_ZOOM ? prev : { ...prev, x: prev.x + dx, y: prev.y + dy });
+    } else if (gesture.current === 'pinch' && pinchStart.current && pointers.current.size === 2) {
+      const rect = containerRef.current!.getBoundingClientRect();
+      const [a, b] = activePoints();
+      const start = pinchStart.current;
+      setView(zoomAt(
+        start.view.zoom * (distance() / start.distance),
+        (a.x + b.x) / 2 - rect.left,
+        (a.y + b.y) / 2 - rect.top,
+        start.view
+      ));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    pinchStart.current = null;
+    gesture.current = pointers.current.size === 1 ? 'pan' : null;
+  };
+
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+  const layerStyle: React.CSSProperties = { transform, transformOrigin: '0 0' };
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      <div
+        ref={containerRef}
+        className="relative flex-1 min-h-[200px] overflow-hidden rounded-2xl bg-slate-900 touch-none select-none cursor-grab"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => setView({ zoom: 1, x: 0, y: 0 })}
+      >
+        {/* Before */}
+        <div className="absolute inset-0" style={layerStyle}>
+          <img src={beforeUrl} alt="Original" draggable={false} className="w-full h-full object-contain" />
+        </div>
+
+        {/* After (clipped to the right of the split) */}
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+          <div className="absolute inset-0" style={layerStyle}>
+            <img src={afterUrl} alt="Resized" draggable={false} className="w-full h-full object-contain" />
+            {showHeatmap && (
+              <canvas ref={heatmapRef} className="absolute inset-0 w-full h-full object-contain" />
+            )}
+          </div>
+        </div>
+
+        {/* Split handle */}
+        <div className="absolute inset-y-0 w-0.5 bg-white/90 shadow" style={{ left: `${split}%` }}>
+          <div
+            data-handle="true"
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-slate-600 text-xs font-bold cursor-ew-resize"
+          >
+            ⇆
+          </div>
+        </div>
+
+        <span className="absolute top-2 left-2 bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full pointer-events-none">Before</span>
+        <span className="absolute top-2 right-2 bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full pointer-events-none">
+          {showHeatmap ? 'Difference' : 'After'}
+        </span>
+        {view.zoom > 1 && (
+          <span className="absolute bottom-2 left-2 bg-black/60 text-white text-[10px] font-bold px-2 py-0.5 rounded-full pointer-events-none">
+            {view.zoom.toFixed(1)}×
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-slate-500 dark:text-slate-400 font-medium">
+          {metrics
+            ? `PSNR ${isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(1)} dB` : '∞'} · SSIM ${metrics.ssim.toFixed(3)}`
+            : 'Measuring…'}
+        </span>
+        <button
+          type="button"
+          onClick={() => setShowHeatmap(!showHeatmap)}
+          disabled={!heatmap}
+          className={`px-2 py-1 rounded-md font-bold transition-colors disabled:opacity-50 ${
+            showHeatmap
+              ? 'bg-red-500 text-white'
+              : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+          }`}
+        >
+          Heatmap
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
@@ -0,0 +1,56 @@
+import React from 'react';
+import Button from './Button';
+import { formatFileSize } from '../utils/fileHelpers';
+import { CompressionProgress } from '../utils/imageProcessor';
+
+interface CompressionProgressBarProps {
+  /** Latest progress report; null until the first candidate has been encoded. */
+  progress: CompressionProgress | null;
+  onCancel: () => void;
+  /** Which of several runs this is, e.g. "50 KB (2 of 3)". */
+  step?: string;
+}
+
+const describe = (progress: CompressionProgress): string => {
+  const scale = `${Math.round(progress.scale * 100)}% scale`;
+  return progress.pass === 'quality'
+    ? `Trying quality ${Math.round(progress.quality * 100)}% at ${scale}`
+    : `Trying ${scale}`;
+};
+
+const CompressionProgressBar: React.FC<CompressionProgressBarProps> = ({ progress, onCancel, step }) => {
+  const percent = Math.round((progress?.estimate ?? 0) * 100);
+
+  return (
+    <div>
+      {step && (
+        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider mb-1">{step}</p>
+      )}
+      <div className="flex items-center justify-between text-xs mb-1.5">
+        <span className="font-bold text-slate-700 dark:text-slate-200">
+          {progress ? describe(progress) : 'Decoding image...'}
+        </span>
+        {progress && (
+          <span className="text-slate-500 dark:text-slate-400">{formatFileSize(progress.size)}</span>
+        )}
+      </div>
+      <div
+        className="w-full h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-3"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className="h-full bg-green-600 rounded-full transition-all duration-300"
+          style={{ width: `${Math.max(percent, 3)}%` }}
+        />
+      </div>
+      <Button fullWidth variant="secondary" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default CompressionProgressBar;
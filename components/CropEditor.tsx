@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactCrop, { Crop, centerCrop, makeAspectCrop } from 'react-image-crop';
+import Button from './Button';
+import { straightenScale } from '../utils/edits';
+import { EditOperation } from '../types';
+
+interface CropEditorProps {
+  imageUrl: string;
+  /** Locked width / height ratio, or undefined for a free-form crop. */
+  aspect?: number;
+  onAspectChange: (aspect: number | undefined) => void;
+  /**
+   * Rotations and flips, applied straight away so the crop is drawn on the turned image.
+   * Cancel should undo them.
+   */
+  onEdit: (operation: EditOperation) => void;
+  /** Keeps the turns made so far, plus the crop when one is drawn. */
+  onApply: (operation?: Extract<EditOperation, { type: 'crop' }>) => void;
+  onCancel: () => void;
+}
+
+const aspectPresets: { label: string; aspect?: number }[] = [
+  { label: 'Free' },
+  { label: '1:1', aspect: 1 },
+  { label: '3:4', aspect: 3 / 4 },
+  { label: 'Passport 35×45', aspect: 35 / 45 },
+  { label: '4:3', aspect: 4 / 3 },
+  { label: '16:9', aspect: 16 / 9 },
+];
+
+const turnEdits: { label: string; title: string; operation: EditOperation }[] = [
+  { label: '⟲', title: 'Rotate left', operation: { type: 'rotate', degrees: 270 } },
+  { label: '⟳', title: 'Rotate right', operation: { type: 'rotate', degrees: 90 } },
+  { label: '⇋', title: 'Flip horizontally', operation: { type: 'flip', axis: 'horizontal' } },
+  { label: '⇵', title: 'Flip vertically', operation: { type: 'flip', axis: 'vertical' } },
+];
+
+const MAX_STRAIGHTEN = 45;
+
+const isPreset = (preset: { aspect?: number }, aspect?: number) =>
+  preset.aspect === undefined || aspect === undefined
+    ? preset.aspect === aspect
+    : Math.abs(preset.aspect - aspect) < 1e-6;
+
+const chipClass = (active: boolean) => `px-2 py-1.5 rounded-lg text-[11px] font-bold transition-colors ${
+  active
+    ? 'bg-green-600 text-white shadow-sm'
+    : 'text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700'
+}`;
+
+const inputClass = "w-14 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1 text-xs font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all";
+
+/**
+ * Crop mode: aspect presets, 90° turns, flips and a fine straighten slider. The crop and
+ * straighten are added to the edit list as one operation, so they render at full resolution on export.
+ */
+const CropEditor: React.FC<CropEditorProps> = ({ imageUrl, aspect, onAspectChange, onEdit, onApply, onCancel }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [crop, setCrop] = useState<Crop>();
+  const [straighten, setStraighten] = useState(0);
+  const [custom, setCustom] = useState({ width: '2', height: '3' });
+  const presetActive = aspectPresets.some(preset => isPreset(preset, aspect));
+
+  // Starts with a centred 90% crop, locked to the aspect when there is one
+  const resetCrop = () => {
+    const img = imgRef.current;
+    if (!img || !img.width || !img.height) return;
+    const { width, height } = img;
+    setCrop(centerCrop(
+      makeAspectCrop({ unit: '%', width: 90 }, aspect || width / height, width, height),
+      width,
+      height
+    ));
+  };
+
+  useEffect(resetCrop, [aspect]);
+
+  const applyCustom = (next: { width: string; height: string }) => {
+    setCustom(next);
+    const width = parseFloat(next.width);
+    const height = parseFloat(next.height);
+    if (width > 0 && height > 0) onAspectChange(width / height);
+  };
+
+  const apply = () => {
+    if (!crop || crop.width <= 0 || crop.height <= 0) {
+      onApply();
+      return;
+    }
+    onApply({
+      type: 'crop',
+      x: crop.x / 100,
+      y: crop.y / 100,
+      width: crop.width / 100,
+      height: crop.height / 100,
+      ...(straighten ? { straighten } : {}),
+    });
+  };
+
+  const img = imgRef.current;
+  const scale = img && img.width && img.height ? straightenScale(img.width, img.height, straighten) : 1;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ReactCrop
+        crop={crop}
+        aspect={aspect}
+        onChange={(_, percentCrop) => setCrop(percentCrop)}
+        className="max-h-[40vh] object-contain bg-slate-900 rounded-lg"
+      >
+        <div className="overflow-hidden">
+          <img
+            ref={imgRef}
+            src={imageUrl}
+            alt="Crop me"
+            onLoad={resetCrop}
+            className="max-w-full h-auto"
+            style={straighten ? { transform: `rotate(${straighten}deg) scale(${scale})` } : undefined}
+          />
+        </div>
+      </ReactCrop>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {aspectPresets.map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => onAspectChange(preset.aspect)}
+            className={chipClass(isPreset(preset, aspect))}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => applyCustom(custom)}
+          className={chipClass(!presetActive)}
+        >
+          Custom
+        </button>
+        {!presetActive && (
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              value={custom.width}
+              onChange={(e) => applyCustom({ ...custom, width: e.target.value })}
+              aria-label="Aspect width"
+              className={inputClass}
+            />
+            <span className="text-slate-400 font-bold text-xs">:</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              value={custom.height}
+              onChange={(e) => applyCustom({ ...custom, height: e.target.value })}
+              aria-label="Aspect height"
+              className={inputClass}
+            />
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {turnEdits.map(({ label, title, operation }) => (
+          <button
+            key={title}
+            type="button"
+            onClick={() => onEdit(operation)}
+            title={title}
+            aria-label={title}
+            className={chipClass(false)}
+          >
+            {label}
+          </button>
+        ))}
+        <label className="flex-1 flex items-center gap-2 text-[11px] font-bold text-slate-500 dark:text-slate-300">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.1}
+            value={straighten}
+            onChange={(e) => setStraighten(parseFloat(e.target.value))}
+            onDoubleClick={() => setStraighten(0)}
+            className="flex-1 accent-green-600"
+          />
+          <span className="w-10 text-right tabular-nums">{straighten.toFixed(1)}°</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="secondary" onClick={onCancel} className="py-2 text-sm">Cancel</Button>
+        <Button variant="primary" onClick={apply} className="py-2 text-sm">Apply</Button>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ResizeMode } from '../types';
+
+export interface DimensionsInputValue {
+  enabled: boolean;
+  width: string;
+  height: string;
+  mode: ResizeMode;
+  background: string;
+}
+
+export const defaultDimensionsInput: DimensionsInputValue = {
+  enabled: false,
+  width: '',
+  height: '',
+  mode: 'fit',
+  background: '#ffffff',
+};
+
+interface DimensionsInputProps {
+  value: DimensionsInputValue;
+  onChange: (value: DimensionsInputValue) => void;
+  disabled?: boolean;
+}
+
+const modes: { value: ResizeMode; label: string; hint: string }[] = [
+  { value: 'fit', label: 'Fit', hint: 'Keeps the whole image inside the box; one side may be smaller.' },
+  { value: 'fill', label: 'Fill', hint: 'Covers the box exactly and crops the overflow.' },
+  { value: 'pad', label: 'Pad', hint: 'Keeps the whole image and fills the empty area with a colour.' },
+];
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl px-3 py-2 text-sm font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent placeholder:text-slate-300 transition-all";
+
+const DimensionsInput: React.FC<DimensionsInputProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<DimensionsInputValue>) => onChange({ ...value, ...patch });
+  const bothSides = !!value.width && !!value.height;
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          disabled={disabled}
+          className="w-4 h-4 accent-green-600"
+        />
+        Exact Dimensions (px)
+      </label>
+
+      {value.enabled && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              inputMode="numeric"
+              value={value.width}
+              onChange={(e) => update({ width: e.target.value })}
+              placeholder="Width"
+              disabled={disabled}
+              className={inputClass}
+            />
+            <span className="text-slate-400 font-bold">×</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              value={value.height}
+              onChange={(e) => update({ height: e.target.value })}
+              placeholder="Height"
+              disabled={disabled}
+              className={inputClass}
+            />
+          </div>
+
+          {bothSides && (
+            <>
+              <div className="grid grid-cols-3 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+                {modes.map((mode) => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    onClick={() => update({ mode: mode.value })}
+                    disabled={disabled}
+                    className={`py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+                      value.mode === mode.value
+                        ? 'bg-green-600 text-white shadow-sm'
+                        : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-400">
+                {modes.find(mode => mode.value === value.mode)?.hint}
+              </p>
+              {value.mode === 'pad' && (
+                <label className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                  Background colour
+                  <input
+                    type="color"
+                    value={value.background}
+                    onChange={(e) => update({ background: e.target.value })}
+                    disabled={disabled}
+                    className="w-10 h-6 rounded border border-slate-200 dark:border-slate-600 bg-transparent"
+                  />
+                </label>
+              )}
+            </>
+          )}
+          {!bothSides && (
+            <p className="text-[11px] text-slate-400">
+              Leave one side empty to keep the aspect ratio.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DimensionsInput;
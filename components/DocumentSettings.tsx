@@ -0,0 +1,86 @@
+import React from 'react';
+import { DocumentOptions } from '../types';
+
+export const defaultDocumentOptions: DocumentOptions = {
+  enabled: false,
+  whiten: true,
+  grayscale: true,
+  threshold: false,
+  trim: true,
+};
+
+interface DocumentSettingsProps {
+  value: DocumentOptions;
+  onChange: (value: DocumentOptions) => void;
+  disabled?: boolean;
+}
+
+const steps: { key: Exclude<keyof DocumentOptions, 'enabled'>; label: string; detail: string }[] = [
+  { key: 'whiten', label: 'Whiten background', detail: 'Turns grey paper white and darkens the ink' },
+  { key: 'grayscale', label: 'Grayscale', detail: 'Drops colour, which most scans don\'t need' },
+  { key: 'threshold', label: 'Black ink on white', detail: 'Pure black and white. Best for signatures' },
+  { key: 'trim', label: 'Trim margins', detail: 'Crops away empty space around the content' },
+];
+
+/**
+ * Document mode for scans and signatures. The preview shows the result live.
+ */
+const DocumentSettings: React.FC<DocumentSettingsProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<DocumentOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Document Mode
+      </label>
+      <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        {[false, true].map((enabled) => (
+          <button
+            key={String(enabled)}
+            type="button"
+            onClick={() => update({ enabled })}
+            disabled={disabled}
+            className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+              value.enabled === enabled
+                ? 'bg-green-600 text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {enabled ? 'Document / signature' : 'Photo'}
+          </button>
+        ))}
+      </div>
+
+      {value.enabled && (
+        <div className="mt-2 space-y-1">
+          {steps.map((step) => {
+            // Black and white output is always gray
+            const implied = step.key === 'grayscale' && value.threshold;
+            return (
+              <label key={step.key} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value[step.key] || implied}
+                  onChange={(e) => update({ [step.key]: e.target.checked })}
+                  disabled={disabled || implied}
+                  className="w-4 h-4 mt-0.5 accent-green-600"
+                />
+                <span>
+                  <span className="font-bold">{step.label}</span>
+                  <span className="block text-[11px] text-slate-400">{step.detail}</span>
+                </span>
+              </label>
+            );
+          })}
+          {value.threshold && (
+            <p className="text-[11px] text-slate-400">
+              Pure black and white compresses best as PNG.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentSettings;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { describeEdit, pushEdit, redoEdit, undoEdit } from '../utils/edits';
+import { EditHistory, EditOperation } from '../types';
+
+interface EditToolbarProps {
+  history: EditHistory;
+  onChange: (history: EditHistory) => void;
+  disabled?: boolean;
+}
+
+// Grouped by kind; each click adds one operation, so repeated clicks stack and undo one by one
+const quickEdits: { label: string; operation: EditOperation }[][] = [
+  [
+    { label: '⟲ Left', operation: { type: 'rotate', degrees: 270 } },
+    { label: '⟳ Right', operation: { type: 'rotate', degrees: 90 } },
+    { label: '⇋ Flip', operation: { type: 'flip', axis: 'horizontal' } },
+  ],
+  [
+    { label: '¾ Size', operation: { type: 'resize', scale: 0.75 } },
+    { label: '½ Size', operation: { type: 'resize', scale: 0.5 } },
+  ],
+  [
+    { label: '☀+', operation: { type: 'filter', filter: 'brightness', amount: 0.1 } },
+    { label: '☀−', operation: { type: 'filter', filter: 'brightness', amount: -0.1 } },
+    { label: '◐+', operation: { type: 'filter', filter: 'contrast', amount: 0.15 } },
+    { label: '◐−', operation: { type: 'filter', filter: 'contrast', amount: -0.15 } },
+    { label: 'B&W', operation: { type: 'filter', filter: 'grayscale', amount: 1 } },
+    { label: 'Sepia', operation: { type: 'filter', filter: 'sepia', amount: 1 } },
+  ],
+];
+
+const separator = <span className="w-px h-5 bg-slate-200 dark:bg-slate-600 mx-1" />;
+
+const buttonClass = 'px-2 py-1.5 rounded-lg text-[11px] font-bold text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modifier = isMac ? '⌘' : 'Ctrl+';
+
+/**
+ * Quick edits plus undo/redo over the edit list. The source image itself is never changed.
+ */
+const EditToolbar: React.FC<EditToolbarProps> = ({ history, onChange, disabled = false }) => {
+  const lastEdit = history.operations[history.operations.length - 1];
+  const nextRedo = history.undone[history.undone.length - 1];
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <button
+        type="button"
+        onClick={() => onChange(undoEdit(history))}
+        disabled={disabled || !lastEdit}
+        title={lastEdit ? `Undo ${describeEdit(lastEdit).toLowerCase()} (${modifier}Z)` : 'Nothing to undo'}
+        className={buttonClass}
+      >
+        ↶ Undo
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange(redoEdit(history))}
+        disabled={disabled || !nextRedo}
+        title={nextRedo ? `Redo ${describeEdit(nextRedo).toLowerCase()} (${modifier}Shift+Z)` : 'Nothing to redo'}
+        className={buttonClass}
+      >
+        ↷ Redo
+      </button>
+      {quickEdits.map((group, index) => (
+        <React.Fragment key={index}>
+          {separator}
+          {group.map(({ label, operation }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => onChange(pushEdit(history, operation))}
+              disabled={disabled}
+              title={describeEdit(operation)}
+              className={buttonClass}
+            >
+              {label}
+            </button>
+          ))}
+        </React.Fragment>
+      ))}
+      {history.operations.length > 0 && (
+        <span className="ml-auto text-[10px] text-slate-400 font-semibold">
+          {history.operations.length} edit{history.operations.length === 1 ? '' : 's'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EditToolbar;
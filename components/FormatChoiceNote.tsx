@@ -0,0 +1,58 @@
+import React from 'react';
+import { formatFileSize } from '../utils/fileHelpers';
+import { FormatCandidate, ProcessedImage } from '../types';
+
+interface FormatChoiceNoteProps {
+  result: ProcessedImage;
+}
+
+const formatLabels: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/png': 'PNG',
+};
+
+const label = (mimeType: string) => formatLabels[mimeType] || mimeType;
+
+const list = (candidates: FormatCandidate[]) => candidates.map(candidate => label(candidate.mimeType)).join(' and ');
+
+/**
+ * Says which format "auto" picked and why, with how each format it tried did.
+ * Renders nothing unless the format was chosen automatically from more than one.
+ */
+const FormatChoiceNote: React.FC<FormatChoiceNoteProps> = ({ result }) => {
+  const choice = result.formatChoice;
+  if (!choice || choice.reason === 'only-allowed') return null;
+
+  const winner = label(result.mimeType);
+  const others = choice.candidates.filter(candidate => candidate.mimeType !== result.mimeType);
+  const reasons: Record<typeof choice.reason, string> = {
+    'most-detail': 'it kept the most detail at this size.',
+    compatible: `${list(others.filter(candidate => candidate.ssim > result.ssim))} looked about the same, and ${winner} is accepted by more sites.`,
+    'only-fit': `${list(others.filter(candidate => candidate.status !== result.status))} couldn't reach the target.`,
+    closest: 'no format reached the target, and this one came closest.',
+    'only-allowed': '',
+  };
+
+  return (
+    <div className="mt-2 rounded-xl px-3 py-2 text-xs bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-600 text-slate-600 dark:text-slate-300">
+      <p>
+        <span className="font-bold">Auto chose {winner}:</span> {reasons[choice.reason]}
+      </p>
+      <ul className="mt-1 space-y-0.5 text-[11px] text-slate-400">
+        {choice.candidates.map(candidate => (
+          <li
+            key={candidate.mimeType}
+            className={candidate.mimeType === result.mimeType ? 'font-bold text-green-700 dark:text-green-400' : undefined}
+          >
+            {label(candidate.mimeType)} · {formatFileSize(candidate.size)} · SSIM {candidate.ssim.toFixed(3)}
+            {candidate.status === 'failed' && ' · over target'}
+            {candidate.status === 'best-effort' && ' · below minimum'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FormatChoiceNote;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { EncodableFormat, OutputFormat } from '../types';
+import { AUTO_FORMATS } from '../utils/imageProcessor';
+
+interface FormatSelectorProps {
+  value: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+  /** Formats "auto" may pick from. */
+  autoFormats?: EncodableFormat[];
+  onAutoFormatsChange?: (formats: EncodableFormat[]) => void;
+  disabled?: boolean;
+}
+
+const formats: { value: OutputFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'original', label: 'Original' },
+  { value: 'auto', label: 'Auto' },
+];
+
+const autoLabels: Record<EncodableFormat, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+const FormatSelector: React.FC<FormatSelectorProps> = ({
+  value,
+  onChange,
+  autoFormats = AUTO_FORMATS,
+  onAutoFormatsChange,
+  disabled = false,
+}) => {
+  // At least one format stays allowed
+  const toggleAutoFormat = (format: EncodableFormat, allowed: boolean) => {
+    const next = AUTO_FORMATS.filter(item => item === format ? allowed : autoFormats.includes(item));
+    if (next.length) onAutoFormatsChange?.(next);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Output Format
+      </label>
+      <div className="grid grid-cols-5 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        {formats.map((format) => (
+          <button
+            key={format.value}
+            type="button"
+            onClick={() => onChange(format.value)}
+            disabled={disabled}
+            className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+              value === format.value
+                ? 'bg-green-600 text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+      {value === 'image/png' && (
+        <p className="text-[11px] text-slate-400 mt-1">
+          PNG is lossless, so only the dimensions are reduced to reach the target.
+        </p>
+      )}
+      {value === 'auto' && (
+        <div className="mt-2">
+          {onAutoFormatsChange && (
+            <div className="flex items-center gap-3 text-xs font-bold text-slate-500 dark:text-slate-300">
+              Allowed
+              {AUTO_FORMATS.map(format => (
+                <label key={format} className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoFormats.includes(format)}
+                    onChange={(e) => toggleAutoFormat(format, e.target.checked)}
+                    disabled={disabled}
+                    className="w-4 h-4 accent-green-600"
+                  />
+                  {autoLabels[format]}
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="text-[11px] text-slate-400 mt-1">
+            Each allowed format is compressed to the target and the one that looks best is kept. Takes longer.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormatSelector;
@@ -3,29 +3,47 @@ import { formatFileSize } from '../utils/fileHelpers';
 
 interface ImageUploaderProps {
   onImageSelect: (file: File) => void;
+  /** Called instead of onImageSelect when more than one image is picked. */
+  onImagesSelect?: (files: File[]) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
+// Formats whose MIME type is often missing (e.g. HEIC on Windows), recognised by extension
+const IMAGE_EXTENSIONS = /\.(heic|heif|tiff?|bmp)$/i;
+
+const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, onImagesSelect }) => {
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const selectFiles = (fileList: FileList, warnOnInvalid: boolean) => {
+    const files = Array.from(fileList);
+    const images = files.filter(isImageFile);
+
+    // Simple validation
+    if (images.length === 0) {
+      if (warnOnInvalid && files.length > 0) alert('Please select a valid image file.');
+      return;
+    }
+
+    if (images.length > 1 && onImagesSelect) {
+      onImagesSelect(images);
+    } else {
+      onImageSelect(images[0]);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      // Simple validation
-      if (!file.type.startsWith('image/')) {
-        alert('Please select a valid image file.');
-        return;
-      }
-      onImageSelect(file);
+    if (e.target.files) {
+      selectFiles(e.target.files, true);
     }
+    // Allow picking the same file(s) again
+    e.target.value = '';
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (!file.type.startsWith('image/')) return;
-      onImageSelect(file);
+    if (e.dataTransfer.files) {
+      selectFiles(e.dataTransfer.files, false);
     }
   };
 
@@ -40,7 +58,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
         type="file" 
         ref={inputRef} 
         className="hidden" 
-        accept="image/*" 
+        accept="image/*,.heic,.heif,.tif,.tiff" 
+        multiple={!!onImagesSelect}
         onChange={handleFileChange} 
       />
       
@@ -56,6 +75,11 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
       <p className="text-sm text-slate-400 mt-2">
         or drag and drop here
       </p>
+      {onImagesSelect && (
+        <p className="text-xs text-slate-400 mt-1">
+          Pick several images to resize them as a batch
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+import React from 'react';
+import { MetadataOptions } from '../types';
+import { ExifSummary } from '../utils/exif';
+
+export const defaultMetadataOptions: MetadataOptions = {
+  keepDate: false,
+  keepCamera: false,
+  keepGps: false,
+};
+
+interface MetadataSettingsProps {
+  value: MetadataOptions;
+  onChange: (value: MetadataOptions) => void;
+  /** What the selected photo contains, when known. */
+  summary?: ExifSummary | null;
+  /** Metadata can only be written into JPEG output. */
+  jpegOutput: boolean;
+  disabled?: boolean;
+}
+
+const MetadataSettings: React.FC<MetadataSettingsProps> = ({ value, onChange, summary, jpegOutput, disabled = false }) => {
+  const update = (patch: Partial<MetadataOptions>) => onChange({ ...value, ...patch });
+  const keepAny = value.keepDate || value.keepCamera || value.keepGps;
+
+  const options: { key: keyof MetadataOptions; label: string; detail?: string }[] = [
+    { key: 'keepDate', label: 'Capture date', detail: summary?.captureDate },
+    { key: 'keepCamera', label: 'Camera make & model', detail: summary?.camera },
+    { key: 'keepGps', label: 'GPS location', detail: summary?.hasGps ? 'This photo contains a location' : undefined },
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Metadata
+      </label>
+      <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        <button
+          type="button"
+          onClick={() => onChange(defaultMetadataOptions)}
+          disabled={disabled}
+          className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+            !keepAny
+              ? 'bg-green-600 text-white shadow-sm'
+              : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+          }`}
+        >
+          Strip all
+        </button>
+        <button
+          type="button"
+          onClick={() => !keepAny && update({ keepDate: true })}
+          disabled={disabled}
+          className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+            keepAny
+              ? 'bg-green-600 text-white shadow-sm'
+              : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+          }`}
+        >
+          Keep selected
+        </button>
+      </div>
+
+      {keepAny && (
+        <div className="mt-2 space-y-1">
+          {options.map((option) => (
+            <label key={option.key} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={value[option.key]}
+                onChange={(e) => update({ [option.key]: e.target.checked })}
+                disabled={disabled}
+                className="w-4 h-4 mt-0.5 accent-green-600"
+              />
+              <span>
+                <span className={`font-bold ${option.key === 'keepGps' && value.keepGps ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                  {option.label}
+                </span>
+                {option.detail && (
+                  <span className="block text-[11px] text-slate-400">{option.detail}</span>
+                )}
+              </span>
+            </label>
+          ))}
+          {value.keepGps && (
+            <p className="text-[11px] text-amber-600 dark:text-amber-400">
+              Anyone you share the file with can see where the photo was taken.
+            </p>
+          )}
+        </div>
+      )}
+
+      {keepAny && !jpegOutput && (
+        <p className="text-[11px] text-slate-400 mt-1">
+          Metadata is only kept in JPEG output; other formats are always stripped.
+        </p>
+      )}
+      {!keepAny && (
+        <p className="text-[11px] text-slate-400 mt-1">
+          Date, camera and location are removed from the output.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataSettings;
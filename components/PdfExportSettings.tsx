@@ -0,0 +1,73 @@
+import React from 'react';
+import { PdfOptions, PdfPageSize } from '../types';
+
+export const defaultPdfOptions: PdfOptions = {
+  pageSize: 'a4',
+  marginMm: 10,
+};
+
+interface PdfExportSettingsProps {
+  value: PdfOptions;
+  onChange: (value: PdfOptions) => void;
+  disabled?: boolean;
+}
+
+const pageSizes: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'fit', label: 'Fit image' },
+];
+
+const margins = [0, 5, 10, 20];
+
+const segmentClass = (active: boolean) => `py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+  active
+    ? 'bg-green-600 text-white shadow-sm'
+    : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+}`;
+
+const PdfExportSettings: React.FC<PdfExportSettingsProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<PdfOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200">
+        PDF Pages
+      </label>
+      <div className="grid grid-cols-3 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        {pageSizes.map((size) => (
+          <button
+            key={size.value}
+            type="button"
+            onClick={() => update({ pageSize: size.value })}
+            disabled={disabled}
+            className={segmentClass(value.pageSize === size.value)}
+          >
+            {size.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-slate-500 dark:text-slate-300">Margin</span>
+        <div className="flex-1 grid grid-cols-4 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+          {margins.map((margin) => (
+            <button
+              key={margin}
+              type="button"
+              onClick={() => update({ marginMm: margin })}
+              disabled={disabled}
+              className={segmentClass(value.marginMm === margin)}
+            >
+              {margin ? `${margin} mm` : 'None'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        One image per page, in the order above. The target size is the size of the whole PDF.
+      </p>
+    </div>
+  );
+};
+
+export default PdfExportSettings;
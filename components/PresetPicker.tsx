@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { Preset } from '../types';
+
+interface PresetPickerProps {
+  presets: Preset[];
+  selectedId: string;
+  onSelect: (preset: Preset | null) => void;
+  onSaveCurrent: () => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+const actionClass = "flex-1 px-2 py-1.5 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-[11px] font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const PresetPicker: React.FC<PresetPickerProps> = ({
+  presets,
+  selectedId,
+  onSelect,
+  onSaveCurrent,
+  onDelete,
+  onImport,
+  onExport,
+  disabled = false,
+}) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const builtIn = presets.filter(preset => preset.builtIn);
+  const custom = presets.filter(preset => !preset.builtIn);
+  const selected = presets.find(preset => preset.id === selectedId);
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Preset
+      </label>
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(presets.find(preset => preset.id === e.target.value) || null)}
+        disabled={disabled}
+        className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl px-3 py-2 text-sm font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all"
+      >
+        <option value="">Custom settings</option>
+        <optgroup label="Built-in">
+          {builtIn.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </optgroup>
+        {custom.length > 0 && (
+          <optgroup label="My presets">
+            {custom.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      <div className="flex gap-1 mt-2">
+        <button type="button" onClick={onSaveCurrent} disabled={disabled} className={actionClass}>
+          Save current
+        </button>
+        <button type="button" onClick={() => importRef.current?.click()} disabled={disabled} className={actionClass}>
+          Import
+        </button>
+        <button type="button" onClick={onExport} disabled={disabled || custom.length === 0} className={actionClass}>
+          Export
+        </button>
+        {selected && !selected.builtIn && (
+          <button
+            type="button"
+            onClick={() => onDelete(selected.id)}
+            disabled={disabled}
+            className="px-2 py-1.5 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 rounded-lg text-[11px] font-bold text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <input
+        type="file"
+        ref={importRef}
+        className="hidden"
+        accept="application/json,.json"
+        onChange={handleImportChange}
+      />
+    </div>
+  );
+};
+
+export default PresetPicker;
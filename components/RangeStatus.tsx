@@ -0,0 +1,35 @@
+import React from 'react';
+import { isWithinRange } from '../utils/fileHelpers';
+import { ProcessedImage } from '../types';
+
+interface RangeStatusProps {
+  result: ProcessedImage;
+}
+
+const adjustmentNotes: Record<NonNullable<ProcessedImage['adjustment']>, string> = {
+  padded: 'File was padded to reach the minimum; pixels are unchanged.',
+  upscaled: 'Image was upscaled to reach the minimum.',
+};
+
+const RangeStatus: React.FC<RangeStatusProps> = ({ result }) => {
+  if (!result.targetRange) return null;
+
+  const { minSize, maxSize } = result.targetRange;
+  const met = isWithinRange(result.newSize, result.targetRange);
+  const rangeText = `${Math.round(minSize / 1024)}–${Math.round(maxSize / 1024)} KB`;
+
+  return (
+    <div className={`mt-2 rounded-xl px-3 py-2 text-xs font-semibold border ${
+      met
+        ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 border-green-100 dark:border-green-800'
+        : 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 border-red-100 dark:border-red-900/40'
+    }`}>
+      <p>{met ? `✓ Within range ${rangeText}` : `✗ Outside range ${rangeText}`}</p>
+      {result.adjustment && (
+        <p className="font-normal opacity-80 mt-0.5">{adjustmentNotes[result.adjustment]}</p>
+      )}
+    </div>
+  );
+};
+
+export default RangeStatus;
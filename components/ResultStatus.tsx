@@ -0,0 +1,50 @@
+import React from 'react';
+import { formatFileSize } from '../utils/fileHelpers';
+import { ProcessedImage, TargetMissReason } from '../types';
+
+interface ResultStatusProps {
+  result: ProcessedImage;
+}
+
+const explanations: Record<TargetMissReason, (result: ProcessedImage) => { text: string; next: string }> = {
+  'dimensions-locked': (result) => ({
+    text: `At the exact dimensions you set, even the lowest quality is larger than ${formatFileSize(result.targetSize)}.`,
+    next: 'Use smaller dimensions, or turn exact dimensions off so the image can be scaled down.',
+  }),
+  lossless: (result) => ({
+    text: `PNG is lossless, so only the dimensions can shrink, and even the smallest size tried is larger than ${formatFileSize(result.targetSize)}.`,
+    next: 'Switch to JPEG or WebP, or raise the target size.',
+  }),
+  'minimum-quality': (result) => ({
+    text: `Even at the lowest quality and smallest scale the file is larger than ${formatFileSize(result.targetSize)}.`,
+    next: 'Raise the target size, crop away part of the image, or try WebP.',
+  }),
+  'below-minimum': (result) => ({
+    text: `The image couldn't be grown to ${formatFileSize(result.targetRange?.minSize ?? 0)} without going over the maximum.`,
+    next: 'Lower the minimum, or choose JPEG or PNG, which can be padded to any size.',
+  }),
+};
+
+/**
+ * Explains a result that missed its target and suggests what to change. Renders nothing when the target was met.
+ */
+const ResultStatus: React.FC<ResultStatusProps> = ({ result }) => {
+  if (result.status === 'met' || !result.reason) return null;
+
+  const failed = result.status === 'failed';
+  const { text, next } = explanations[result.reason](result);
+
+  return (
+    <div className={`mt-2 rounded-xl px-3 py-2 text-xs font-semibold border ${
+      failed
+        ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 border-red-100 dark:border-red-900/40'
+        : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-100 dark:border-amber-900/40'
+    }`}>
+      <p>{failed ? '✗ Target size missed' : '! Below the minimum size'}</p>
+      <p className="font-normal opacity-80 mt-0.5">{text}</p>
+      <p className="font-normal mt-1">{next}</p>
+    </div>
+  );
+};
+
+export default ResultStatus;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { StampAlign, StampOptions, StampPosition } from '../types';
+
+export const defaultStampOptions: StampOptions = {
+  enabled: false,
+  text: '{date}',
+  fontSize: 0.06,
+  color: '#000000',
+  band: true,
+  bandColor: '#ffffff',
+  position: 'bottom',
+  align: 'center',
+};
+
+interface StampSettingsProps {
+  value: StampOptions;
+  onChange: (value: StampOptions) => void;
+  disabled?: boolean;
+}
+
+const tokens = ['{date}', '{filename}'];
+
+const positions: { value: StampPosition; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+const alignments: { value: StampAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Centre' },
+  { value: 'right', label: 'Right' },
+];
+
+const segmentClass = (active: boolean) => `py-1.5 rounded-lg text-[11px] font-bold transition-colors disabled:opacity-50 ${
+  active
+    ? 'bg-green-600 text-white shadow-sm'
+    : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+}`;
+
+const colorClass = "w-8 h-8 rounded-lg border border-slate-200 dark:border-slate-600 bg-transparent cursor-pointer";
+
+/**
+ * Text stamp (e.g. name and photo date) printed onto the image before it is compressed.
+ */
+const StampSettings: React.FC<StampSettingsProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<StampOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Text Stamp
+      </label>
+      <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        {[false, true].map((enabled) => (
+          <button
+            key={String(enabled)}
+            type="button"
+            onClick={() => update({ enabled })}
+            disabled={disabled}
+            className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+              value.enabled === enabled
+                ? 'bg-green-600 text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {enabled ? 'Add text' : 'None'}
+          </button>
+        ))}
+      </div>
+
+      {value.enabled && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={value.text}
+            onChange={(e) => update({ text: e.target.value })}
+            rows={2}
+            placeholder="e.g. Jane Doe {date}"
+            disabled={disabled}
+            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl px-3 py-2 text-sm font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent placeholder:text-slate-300 transition-all resize-none"
+          />
+          <div className="flex items-center gap-1 text-[11px] text-slate-400">
+            Insert
+            {tokens.map(token => (
+              <button
+                key={token}
+                type="button"
+                onClick={() => update({ text: `${value.text}${value.text && !value.text.endsWith(' ') ? ' ' : ''}${token}` })}
+                disabled={disabled}
+                className="px-1.5 py-0.5 rounded-md font-mono font-bold text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors"
+              >
+                {token}
+              </button>
+            ))}
+            <span className="ml-1">Date is when the photo was taken, or today.</span>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-300">
+            Size
+            <input
+              type="range"
+              min={0.02}
+              max={0.15}
+              step={0.005}
+              value={value.fontSize}
+              onChange={(e) => update({ fontSize: parseFloat(e.target.value) })}
+              disabled={disabled}
+              className="flex-1 accent-green-600"
+            />
+            <span className="w-16 text-right text-[11px] font-semibold text-slate-400">
+              {Math.round(value.fontSize * 100)}% of height
+            </span>
+          </label>
+
+          <div className="flex items-center gap-3 text-xs font-bold text-slate-500 dark:text-slate-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="color"
+                value={value.color}
+                onChange={(e) => update({ color: e.target.value })}
+                disabled={disabled}
+                className={colorClass}
+              />
+              Text
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={value.band}
+                onChange={(e) => update({ band: e.target.checked })}
+                disabled={disabled}
+                className="w-4 h-4 accent-green-600"
+              />
+              Background band
+            </label>
+            {value.band && (
+              <input
+                type="color"
+                value={value.bandColor}
+                onChange={(e) => update({ bandColor: e.target.value })}
+                disabled={disabled}
+                aria-label="Band colour"
+                className={colorClass}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+              {positions.map(position => (
+                <button
+                  key={position.value}
+                  type="button"
+                  onClick={() => update({ position: position.value })}
+                  disabled={disabled}
+                  className={segmentClass(value.position === position.value)}
+                >
+                  {position.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+              {alignments.map(alignment => (
+                <button
+                  key={alignment.value}
+                  type="button"
+                  onClick={() => update({ align: alignment.value })}
+                  disabled={disabled}
+                  className={segmentClass(value.align === alignment.value)}
+                >
+                  {alignment.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StampSettings;
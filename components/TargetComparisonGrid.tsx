@@ -0,0 +1,56 @@
+import React from 'react';
+import { formatFileSize } from '../utils/fileHelpers';
+import { ProcessedImage } from '../types';
+
+interface TargetComparisonGridProps {
+  results: ProcessedImage[];
+  onDownload: (result: ProcessedImage) => void;
+}
+
+const statusBadges: Record<ProcessedImage['status'], { label: string; className: string }> = {
+  met: { label: 'Within target', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  'best-effort': { label: 'Below minimum', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' },
+  failed: { label: 'Over target', className: 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-300' },
+};
+
+/**
+ * Results for several target sizes side by side, smallest target first.
+ */
+const TargetComparisonGrid: React.FC<TargetComparisonGridProps> = ({ results, onDownload }) => {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {results.map((result) => {
+        const badge = statusBadges[result.status];
+        return (
+          <div
+            key={result.targetSize}
+            className="bg-white dark:bg-slate-700 border border-green-100 dark:border-slate-600 rounded-2xl p-2 shadow-sm flex flex-col"
+          >
+            <div className="relative aspect-square bg-slate-50 dark:bg-slate-900/50 rounded-xl overflow-hidden mb-2">
+              <img src={result.url} alt={`Resized to ${formatFileSize(result.targetSize)}`} className="absolute inset-0 w-full h-full object-contain p-1" />
+              <span className="absolute top-1 left-1 bg-black/70 text-white px-2 py-0.5 rounded-full text-[10px] font-bold">
+                ≤ {formatFileSize(result.targetSize)}
+              </span>
+            </div>
+            <p className="text-base font-black text-green-700 dark:text-green-300 leading-tight">{formatFileSize(result.newSize)}</p>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">{result.width} × {result.height} px</p>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400" title="SSIM compares the result with the original; 1.000 means identical">
+              Quality {Math.round(result.quality * 100)}% · SSIM {result.ssim.toFixed(3)}
+            </p>
+            <span className={`self-start mt-1 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-md ${badge.className}`}>
+              {badge.label}
+            </span>
+            <button
+              onClick={() => onDownload(result)}
+              className="mt-2 py-1.5 rounded-lg bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs font-bold hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors"
+            >
+              Download
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TargetComparisonGrid;
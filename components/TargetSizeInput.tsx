@@ -0,0 +1,160 @@
+import React from 'react';
+import { UndersizeStrategy } from '../types';
+
+interface TargetSizeInputProps {
+  rangeMode: boolean;
+  onRangeModeChange: (rangeMode: boolean) => void;
+  maxKB: string;
+  onMaxKBChange: (value: string) => void;
+  minKB: string;
+  onMinKBChange: (value: string) => void;
+  undersizeStrategy: UndersizeStrategy;
+  onUndersizeStrategyChange: (strategy: UndersizeStrategy) => void;
+  /** Several targets at once; only offered when onMultiModeChange is given. */
+  multiMode?: boolean;
+  onMultiModeChange?: (multiMode: boolean) => void;
+  targetList?: string;
+  onTargetListChange?: (value: string) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Parses a list of sizes such as "20, 50 100" into unique KB values, smallest first.
+ */
+export const parseTargetList = (text: string): number[] =>
+  Array.from(new Set(
+    text
+      .split(/[\s,;]+/)
+      .map(part => parseFloat(part))
+      .filter(kb => Number.isFinite(kb) && kb > 0)
+  )).sort((a, b) => a - b);
+
+const toggleClass = "text-xs font-semibold text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 px-2 py-1 rounded-md hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors disabled:opacity-50";
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl px-4 py-3 text-lg font-bold text-slate-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent placeholder:text-slate-300 transition-all";
+
+const TargetSizeInput: React.FC<TargetSizeInputProps> = ({
+  rangeMode,
+  onRangeModeChange,
+  maxKB,
+  onMaxKBChange,
+  minKB,
+  onMinKBChange,
+  undersizeStrategy,
+  onUndersizeStrategyChange,
+  multiMode = false,
+  onMultiModeChange,
+  targetList = '',
+  onTargetListChange,
+  label = 'Target File Size (KB)',
+  disabled = false,
+}) => {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-bold text-slate-700 dark:text-slate-200">
+          {label}
+        </label>
+        <div className="flex items-center gap-1">
+          {onMultiModeChange && (
+            <button
+              type="button"
+              onClick={() => onMultiModeChange(!multiMode)}
+              disabled={disabled}
+              className={toggleClass}
+            >
+              {multiMode ? 'Use one size' : 'Several sizes'}
+            </button>
+          )}
+          {!multiMode && (
+            <button
+              type="button"
+              onClick={() => onRangeModeChange(!rangeMode)}
+              disabled={disabled}
+              className={toggleClass}
+            >
+              {rangeMode ? 'Use max only' : 'Use min–max range'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {multiMode ? (
+        <>
+          <div className="relative">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={targetList}
+              onChange={(e) => onTargetListChange?.(e.target.value)}
+              placeholder="e.g. 20, 50, 100"
+              disabled={disabled}
+              className={inputClass}
+            />
+            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-sm">KB</span>
+          </div>
+          <p className="text-[11px] text-slate-400 mt-1">
+            One image is made for each size, so you can compare them.
+          </p>
+        </>
+      ) : rangeMode ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="relative">
+              <input 
+                type="number" 
+                inputMode="decimal"
+                value={minKB}
+                onChange={(e) => onMinKBChange(e.target.value)}
+                placeholder="Min"
+                disabled={disabled}
+                className={inputClass}
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-sm">KB</span>
+            </div>
+            <div className="relative">
+              <input 
+                type="number" 
+                inputMode="decimal"
+                value={maxKB}
+                onChange={(e) => onMaxKBChange(e.target.value)}
+                placeholder="Max"
+                disabled={disabled}
+                className={inputClass}
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-sm">KB</span>
+            </div>
+          </div>
+          <div className="flex items-center justify-between mt-2 text-xs text-slate-500 dark:text-slate-400">
+            <span>If the image is too small:</span>
+            <select
+              value={undersizeStrategy}
+              onChange={(e) => onUndersizeStrategyChange(e.target.value as UndersizeStrategy)}
+              disabled={disabled}
+              className="bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-md px-1 py-0.5 font-bold text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-green-500"
+            >
+              <option value="pad">Pad file (keep pixels)</option>
+              <option value="upscale">Upscale image</option>
+            </select>
+          </div>
+        </>
+      ) : (
+        <div className="relative">
+          <input 
+            type="number" 
+            inputMode="decimal"
+            value={maxKB}
+            onChange={(e) => onMaxKBChange(e.target.value)}
+            placeholder="e.g. 50"
+            disabled={disabled}
+            className={inputClass}
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-sm">KB</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TargetSizeInput;
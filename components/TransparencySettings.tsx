@@ -0,0 +1,68 @@
+import React from 'react';
+import { TransparencyMode, TransparencyOptions } from '../types';
+
+export const defaultTransparencyOptions: TransparencyOptions = {
+  mode: 'flatten',
+  background: '#ffffff',
+};
+
+interface TransparencySettingsProps {
+  value: TransparencyOptions;
+  onChange: (value: TransparencyOptions) => void;
+  /** Whether the chosen output format can store transparency. */
+  alphaOutput: boolean;
+  disabled?: boolean;
+}
+
+const modes: { value: TransparencyMode; label: string }[] = [
+  { value: 'flatten', label: 'Fill background' },
+  { value: 'keep', label: 'Keep transparent' },
+];
+
+const TransparencySettings: React.FC<TransparencySettingsProps> = ({ value, onChange, alphaOutput, disabled = false }) => {
+  const update = (patch: Partial<TransparencyOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">
+        Transparency
+      </label>
+      <div className="grid grid-cols-2 gap-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl p-1">
+        {modes.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => update({ mode: mode.value })}
+            disabled={disabled}
+            className={`py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+              value.mode === mode.value
+                ? 'bg-green-600 text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {value.mode === 'flatten' ? (
+        <label className="flex items-center gap-2 mt-2 text-xs font-bold text-slate-500 dark:text-slate-300">
+          <input
+            type="color"
+            value={value.background}
+            onChange={(e) => update({ background: e.target.value })}
+            disabled={disabled}
+            className="w-8 h-8 rounded-lg border border-slate-200 dark:border-slate-600 bg-transparent cursor-pointer"
+          />
+          Background colour for transparent areas
+        </label>
+      ) : !alphaOutput && (
+        <p className="text-[11px] text-slate-400 mt-1">
+          JPEG can't store transparency, so the result is saved as WebP (or PNG if WebP isn't available).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TransparencySettings;
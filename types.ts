@@ -1,3 +1,188 @@
+/** Formats the canvas can encode. */
+export type EncodableFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+/** "original" keeps the source format; "auto" tries the allowed formats and keeps the best. */
+export type OutputFormat = EncodableFormat | 'original' | 'auto';
+
+/** How to grow a result that comes out below the minimum of a size range. */
+export type UndersizeStrategy = 'pad' | 'upscale';
+
+/**
+ * fit: scale to fit inside the box, keeping aspect ratio (output may be smaller than the box)
+ * fill: scale to cover the box and crop the overflow (output is exactly the box)
+ * pad: fit inside the box and fill the rest with a background colour (output is exactly the box)
+ */
+export type ResizeMode = 'fit' | 'fill' | 'pad';
+
+/** Exact output dimensions. When only one side is given the other follows the aspect ratio. */
+export interface TargetDimensions {
+  width?: number;
+  height?: number;
+  mode: ResizeMode;
+  background: string;
+}
+
+/**
+ * Which EXIF fields to copy into the output JPEG. Everything else is always stripped,
+ * and all false (the default) strips metadata completely.
+ */
+export interface MetadataOptions {
+  keepDate: boolean;
+  keepCamera: boolean;
+  /** Location must be opted into explicitly. */
+  keepGps: boolean;
+}
+
+/**
+ * flatten: composite transparent areas onto `background`
+ * keep: keep the alpha channel, switching JPEG output to an alpha-capable format
+ */
+export type TransparencyMode = 'flatten' | 'keep';
+
+export interface TransparencyOptions {
+  mode: TransparencyMode;
+  background: string;
+}
+
+/**
+ * Clean-up for scanned documents and signatures, run after the edits and before compressing.
+ * whiten: stretch levels so the paper turns white and the ink black
+ * grayscale: drop colour
+ * threshold: adaptive black ink on white; implies grayscale
+ * trim: crop away empty margins
+ */
+export interface DocumentOptions {
+  enabled: boolean;
+  whiten: boolean;
+  grayscale: boolean;
+  threshold: boolean;
+  trim: boolean;
+}
+
+export type StampPosition = 'top' | 'bottom';
+export type StampAlign = 'left' | 'center' | 'right';
+
+/**
+ * Text printed onto the image before the size search, so it counts towards the size.
+ * `text` may contain the {date} and {filename} tokens; line breaks start new lines.
+ */
+export interface StampOptions {
+  enabled: boolean;
+  text: string;
+  /** Line height as a share of the image height (0–1). */
+  fontSize: number;
+  color: string;
+  /** Whether a solid band is drawn behind the text. */
+  band: boolean;
+  bandColor: string;
+  position: StampPosition;
+  align: StampAlign;
+}
+
+/**
+ * Page layout for PDF export. "fit" pages take each image's proportions.
+ */
+export type PdfPageSize = 'a4' | 'letter' | 'fit';
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  marginMm: number;
+}
+
+/**
+ * How images are shrunk whenever the pipeline changes their dimensions.
+ * browser: a single canvas drawImage (fastest, aliases when shrinking a lot)
+ * stepwise: repeated halving, then one final draw
+ * bicubic / lanczos: separable kernel filters on the pixel data (sharpest, slowest)
+ */
+export type ResamplingMethod = 'browser' | 'stepwise' | 'bicubic' | 'lanczos';
+
+/**
+ * met: the result is within the requested size
+ * best-effort: under the maximum, but a requested minimum could not be reached
+ * failed: even the smallest result is larger than the maximum
+ */
+export type CompressionStatus = 'met' | 'best-effort' | 'failed';
+
+/**
+ * Why a result missed its target.
+ * dimensions-locked: exact dimensions were set, so the image could not be scaled down
+ * lossless: PNG can only shrink by scaling, and the smallest scale was still too large
+ * minimum-quality: the lowest quality at the smallest scale was still too large
+ * below-minimum: the result could not be grown to the minimum without exceeding the maximum
+ */
+export type TargetMissReason = 'dimensions-locked' | 'lossless' | 'minimum-quality' | 'below-minimum';
+
+export type ImageFilter = 'grayscale' | 'sepia' | 'brightness' | 'contrast';
+
+/**
+ * One step of the non-destructive edit list, applied in order to the untouched source.
+ * Crop rectangles are fractions (0–1) of the image produced by the steps before them,
+ * so the list works at any resolution (previews, sources scaled down to fit the canvas).
+ */
+export type EditOperation =
+  /**
+   * straighten: degrees (clockwise, small) the image is rotated by before cropping. It is
+   * enlarged just enough to fill its frame, so no empty corners appear.
+   */
+  | { type: 'crop'; x: number; y: number; width: number; height: number; straighten?: number }
+  /** Clockwise. */
+  | { type: 'rotate'; degrees: 90 | 180 | 270 }
+  | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+  | { type: 'resize'; scale: number }
+  /** amount: 0–1 for grayscale and sepia, -1–1 for brightness and contrast. */
+  | { type: 'filter'; filter: ImageFilter; amount: number };
+
+/** The applied edits plus the ones undone since, most recent last, for redo. */
+export interface EditHistory {
+  operations: EditOperation[];
+  undone: EditOperation[];
+}
+
+export interface TargetRange {
+  minSize: number;
+  maxSize: number;
+}
+
+/** A named combination of resize settings. */
+export interface Preset {
+  id: string;
+  name: string;
+  targetKB: number;
+  /** When set, the preset uses range mode with this minimum. */
+  minKB?: number;
+  format: OutputFormat;
+  /** Formats "auto" may choose from, e.g. the ones a portal accepts. All of them when omitted. */
+  autoFormats?: EncodableFormat[];
+  dimensions?: TargetDimensions;
+  /** Width / height ratio the crop tool is locked to. */
+  cropAspect?: number;
+  builtIn?: boolean;
+}
+
+/** A format tried by the "auto" mode, with how it did at the target size. */
+export interface FormatCandidate {
+  mimeType: string;
+  size: number;
+  ssim: number;
+  status: CompressionStatus;
+}
+
+/**
+ * Why "auto" picked its format.
+ * most-detail: highest SSIM among the formats that reached the target
+ * compatible: as detailed as the best, and accepted by more sites
+ * only-fit: the other formats couldn't reach the target
+ * closest: no format reached the target; this one came nearest
+ * only-allowed: just one format was allowed
+ */
+export type FormatChoiceReason = 'most-detail' | 'compatible' | 'only-fit' | 'closest' | 'only-allowed';
+
+export interface FormatChoice {
+  reason: FormatChoiceReason;
+  candidates: FormatCandidate[];
+}
+
 export interface ProcessedImage {
   blob: Blob;
   url: string;
@@ -5,6 +190,25 @@ export interface ProcessedImage {
   newSize: number;
   width: number;
   height: number;
+  mimeType: string;
+  /** Encoder quality used (1 for lossless output). */
+  quality: number;
+  /** Structural similarity to the source, 1 = identical. */
+  ssim: number;
+  /** Requested maximum size in bytes. */
+  targetSize: number;
+  /** Accepted size window in bytes, when range mode was used. */
+  targetRange?: TargetRange;
+  status: CompressionStatus;
+  /** Why the target was missed, when status isn't "met". */
+  reason?: TargetMissReason;
+  adjustment?: 'padded' | 'upscaled';
+  /** What happened to transparent areas, when the source had any. */
+  transparency?: 'flattened' | 'kept';
+  /** Full size of the source, when it was too large for the browser and had to be scaled down. */
+  downscaledFrom?: { width: number; height: number };
+  /** How the format was chosen, when it was "auto". */
+  formatChoice?: FormatChoice;
 }
 
 export enum AppState {
@@ -12,10 +216,12 @@ export enum AppState {
   SELECTED = 'SELECTED',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
+  BATCH = 'BATCH',
 }
 
 export interface ToastMessage {
-  type: 'success' | 'error';
+  /** warning: the action finished, but not quite as asked (e.g. a missed target size). */
+  type: 'success' | 'warning' | 'error';
   text: string;
 }
 
@@ -25,5 +231,16 @@ export interface HistoryItem {
   fileName: string;
   originalSize: number;
   newSize: number;
+  mimeType: string;
   timestamp: number;
 }
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  result?: ProcessedImage;
+  error?: string;
+}
@@ -0,0 +1,137 @@
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+
+// Pure TypeScript BMP decoder, used when the browser's own decoder rejects a file.
+// Handles uncompressed 1/4/8-bit palette, 16/24/32-bit and bitfield images,
+// bottom-up and top-down. RLE-compressed BMPs are not supported.
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+interface Channel {
+  mask: number;
+  shift: number;
+  max: number;
+}
+
+const toChannel = (mask: number): Channel => {
+  if (!mask) return { mask: 0, shift: 0, max: 0 };
+  let shift = 0;
+  while (!((mask >>> shift) & 1)) shift++;
+  return { mask: mask >>> 0, shift, max: (mask >>> shift) >>> 0 };
+};
+
+const readChannel = (value: number, channel: Channel): number =>
+  channel.max ? Math.round((((value & channel.mask) >>> channel.shift) * 255) / channel.max) : 255;
+
+/**
+ * Decodes a Windows/OS2 bitmap file to RGBA pixels.
+ */
+export const decodeBmp = (bytes: Uint8Array): DecodedPixels => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 26 || bytes[0] !== 0x42 || bytes[1] !== 0x4d) {
+    throw new UnsupportedImageError('This BMP file is damaged');
+  }
+
+  const dataOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const core = headerSize === 12; // OS/2 BITMAPCOREHEADER
+
+  const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+  const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+  const bpp = view.getUint16(core ? 24 : 28, true);
+  const compression = core ? BI_RGB : view.getUint32(30, true);
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (width <= 0 || height === 0) {
+    throw new UnsupportedImageError('This BMP file is damaged');
+  }
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new UnsupportedImageError('Compressed BMP files are not supported');
+  }
+
+  // Bit masks live in the header (V2+) or right after a 40-byte header
+  const masksAt = 14 + 40;
+  let paletteAt = 14 + headerSize;
+  if (!core && compression !== BI_RGB && headerSize === 40) {
+    paletteAt += compression === BI_ALPHABITFIELDS ? 16 : 12;
+  }
+
+  let red: Channel;
+  let green: Channel;
+  let blue: Channel;
+  let alpha: Channel;
+  if (compression !== BI_RGB) {
+    red = toChannel(view.getUint32(masksAt, true));
+    green = toChannel(view.getUint32(masksAt + 4, true));
+    blue = toChannel(view.getUint32(masksAt + 8, true));
+    const hasAlphaMask = headerSize >= 56 || compression === BI_ALPHABITFIELDS;
+    alpha = toChannel(hasAlphaMask ? view.getUint32(masksAt + 12, true) : 0);
+  } else if (bpp === 16) {
+    red = toChannel(0x7c00);
+    green = toChannel(0x03e0);
+    blue = toChannel(0x001f);
+    alpha = toChannel(0);
+  } else {
+    red = toChannel(0xff0000);
+    green = toChannel(0xff00);
+    blue = toChannel(0xff);
+    alpha = toChannel(0);
+  }
+
+  // Palette for indexed images (BGR or BGRx entries)
+  const palette: number[][] = [];
+  if (bpp <= 8) {
+    const entrySize = core ? 3 : 4;
+    const used = core ? 0 : view.getUint32(46, true);
+    const count = used || 1 << bpp;
+    for (let i = 0; i < count; i++) {
+      const at = paletteAt + i * entrySize;
+      palette.push([bytes[at + 2], bytes[at + 1], bytes[at]]);
+    }
+  } else if (bpp !== 16 && bpp !== 24 && bpp !== 32) {
+    throw new UnsupportedImageError(`${bpp}-bit BMP files are not supported`);
+  }
+
+  const rowSize = Math.ceil((width * bpp) / 32) * 4;
+  if (dataOffset + rowSize * height > bytes.length) {
+    throw new UnsupportedImageError('This BMP file is damaged');
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const row = dataOffset + (topDown ? y : height - 1 - y) * rowSize;
+
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let r: number, g: number, b: number, a = 255;
+
+      if (bpp <= 8) {
+        const bit = x * bpp;
+        const index = (bytes[row + (bit >> 3)] >> (8 - bpp - (bit & 7))) & ((1 << bpp) - 1);
+        [r, g, b] = palette[index] || [0, 0, 0];
+      } else if (bpp === 24) {
+        const at = row + x * 3;
+        b = bytes[at];
+        g = bytes[at + 1];
+        r = bytes[at + 2];
+      } else {
+        const value = bpp === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        r = readChannel(value, red);
+        g = readChannel(value, green);
+        b = readChannel(value, blue);
+        a = readChannel(value, alpha);
+      }
+
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,108 @@
+// Small helpers that let the pipeline run on either an HTMLCanvasElement (main thread)
+// or an OffscreenCanvas (compression worker).
+
+import { EmptyCanvasError } from './errors';
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const isOffscreenCanvas = (canvas: AnyCanvas): canvas is OffscreenCanvas =>
+  typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+
+/**
+ * Creates a canvas of the given size. Uses a DOM canvas when a document exists
+ * (so the main-thread fallback works where OffscreenCanvas has no 2D context),
+ * otherwise an OffscreenCanvas.
+ */
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return new OffscreenCanvas(width, height);
+};
+
+export const get2dContext = (canvas: AnyCanvas): AnyContext2D | null =>
+  isOffscreenCanvas(canvas) ? canvas.getContext('2d') : canvas.getContext('2d');
+
+export const encodeCanvas = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if (isOffscreenCanvas(canvas)) {
+    return canvas.convertToBlob({ type, quality }).catch(() => {
+      throw new EmptyCanvasError();
+    });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      // toBlob gives null when the canvas is too large for the browser to encode
+      (blob) => (blob ? resolve(blob) : reject(new EmptyCanvasError())),
+      type,
+      quality
+    );
+  });
+};
+
+/** The largest canvas this browser can draw into and encode. */
+export interface CanvasLimits {
+  maxSide: number;
+  maxArea: number;
+}
+
+// Sizes probed, largest first. Bigger canvases would exhaust memory during the size
+// search long before they hit the browser limit, so nothing above these is tried.
+const SIDE_CANDIDATES = [16384, 8192, 4096];
+const AREA_CANDIDATES = [8192, 5792, 4096];
+
+let canvasLimits: CanvasLimits | null = null;
+
+/**
+ * Whether a canvas of this size actually holds pixels. Browsers over their limit
+ * usually don't throw; they hand out a canvas that silently stays blank.
+ */
+const canvasWorks = (width: number, height: number): boolean => {
+  try {
+    const canvas = createCanvas(width, height);
+    const ctx = get2dContext(canvas);
+    if (!ctx) return false;
+
+    ctx.fillRect(width - 1, height - 1, 1, 1);
+    const works = ctx.getImageData(width - 1, height - 1, 1, 1).data[3] !== 0;
+    // Release the backing store right away instead of waiting for GC
+    canvas.width = 0;
+    canvas.height = 0;
+    return works;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detects the maximum canvas side and area once per context (page or worker).
+ */
+export const getCanvasLimits = (): CanvasLimits => {
+  canvasLimits ??= {
+    maxSide: SIDE_CANDIDATES.find(side => canvasWorks(side, 1)) ?? SIDE_CANDIDATES[SIDE_CANDIDATES.length - 1],
+    maxArea: (AREA_CANDIDATES.find(side => canvasWorks(side, side)) ?? AREA_CANDIDATES[AREA_CANDIDATES.length - 1]) ** 2,
+  };
+  return canvasLimits;
+};
+
+/**
+ * Scales dimensions down (keeping the aspect ratio) until they fit the canvas limits.
+ * Returns them unchanged when they already fit.
+ */
+export const fitCanvasLimits = (
+  width: number,
+  height: number,
+  limits: CanvasLimits = getCanvasLimits()
+): { width: number; height: number; scaled: boolean } => {
+  const scale = Math.min(1, limits.maxSide / Math.max(width, height), Math.sqrt(limits.maxArea / (width * height)));
+  if (scale >= 1) return { width, height, scaled: false };
+
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale)),
+    scaled: true,
+  };
+};
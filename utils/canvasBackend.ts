@@ -0,0 +1,82 @@
+import { AnyCanvas, createCanvas, encodeCanvas, fitCanvasLimits, get2dContext } from './canvas';
+import { fileToImage } from './fileHelpers';
+import { drawResampled } from './resample';
+import { hasTransparency } from './transparency';
+import { CanvasContextError, ImageDecodeError } from './errors';
+import { ImageBackend } from './imageBackend';
+
+/**
+ * Decodes an encoded candidate so it can be scored against the source.
+ */
+const decodeBlob = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  try {
+    if (typeof createImageBitmap !== 'undefined') {
+      return await createImageBitmap(blob);
+    }
+    return await fileToImage(blob);
+  } catch {
+    throw new ImageDecodeError("The browser couldn't read back the compressed image. Try another format.");
+  }
+};
+
+/**
+ * The browser backend: renders into `canvas` (a DOM canvas on the main thread, an
+ * OffscreenCanvas in the worker) and encodes with the browser's own encoders.
+ */
+export const createCanvasBackend = (canvas: AnyCanvas): ImageBackend<CanvasImageSource, AnyCanvas> => {
+  const ctx = get2dContext(canvas);
+  if (!ctx) {
+    throw new CanvasContextError();
+  }
+
+  // Reused for reading pixels, e.g. at the SSIM comparison size
+  let scratch: AnyCanvas | null = null;
+
+  return {
+    render: (source, width, height, resampling) => {
+      canvas.width = width;
+      canvas.height = height;
+      ctx.clearRect(0, 0, width, height);
+      drawResampled(ctx, source, 0, 0, width, height, resampling);
+      return canvas;
+    },
+
+    encode: (frame, type, quality) => encodeCanvas(frame, type, quality),
+
+    decode: async (blob) => {
+      const image = await decodeBlob(blob);
+      return 'close' in image
+        ? { image, width: image.width, height: image.height, release: () => image.close() }
+        : { image, width: image.naturalWidth, height: image.naturalHeight, release: () => {} };
+    },
+
+    readPixels: ({ image }, width, height) => {
+      scratch ??= createCanvas(width, height);
+      scratch.width = width;
+      scratch.height = height;
+      const scratchCtx = get2dContext(scratch);
+      if (!scratchCtx) {
+        throw new CanvasContextError();
+      }
+      scratchCtx.clearRect(0, 0, width, height);
+      scratchCtx.drawImage(image, 0, 0, width, height);
+      return scratchCtx.getImageData(0, 0, width, height);
+    },
+
+    hasTransparency: ({ image, width, height }) => hasTransparency(image, width, height),
+
+    flatten: ({ image, width, height }, background) => {
+      const flat = createCanvas(width, height);
+      const flatCtx = get2dContext(flat);
+      if (!flatCtx) {
+        throw new CanvasContextError();
+      }
+      flatCtx.fillStyle = background;
+      flatCtx.fillRect(0, 0, width, height);
+      flatCtx.drawImage(image, 0, 0, width, height);
+      return flat;
+    },
+
+    fits: (width, height) => !fitCanvasLimits(width, height).scaled,
+  };
+};
@@ -0,0 +1,67 @@
+import { compressSourceToTarget, decodeForCompression } from './imageProcessor';
+import { WorkerRequest, WorkerResponse } from './workerProtocol';
+import { PipelineErrorName, isPipelineError } from './errors';
+
+// The project compiles against the DOM lib only, so describe the bits of the worker scope we use.
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const post = (message: WorkerResponse) => scope.postMessage(message);
+
+// Running requests, so a cancel message can abort them between encodes
+const running = new Map<number, AbortController>();
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, file, targetKB, options } = request;
+
+  if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    post({ type: 'error', id, message: 'OffscreenCanvas is not available', unsupported: true });
+    return;
+  }
+
+  const canvas = new OffscreenCanvas(1, 1);
+  if (!canvas.getContext('2d')) {
+    post({ type: 'error', id, message: 'OffscreenCanvas 2D context is not available', unsupported: true });
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  let release: (() => void) | null = null;
+  try {
+    const decoded = await decodeForCompression(file, options.exif);
+    release = decoded.release;
+    const result = await compressSourceToTarget(
+      decoded.source,
+      canvas,
+      targetKB,
+      {
+        ...options,
+        exif: decoded.exif,
+        signal: controller.signal,
+        onProgress: (progress) => post({ type: 'progress', id, progress }),
+      }
+    );
+    post({ type: 'result', id, result: { ...result, downscaledFrom: decoded.downscaledFrom } });
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error),
+      unsupported: false,
+      errorName: isPipelineError(error) ? (error.name as PipelineErrorName) : undefined,
+    });
+  } finally {
+    running.delete(id);
+    release?.();
+  }
+};
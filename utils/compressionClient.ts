@@ -0,0 +1,130 @@
+import {
+  compressImageToTarget,
+  CompressionOptions,
+  CompressionResult,
+} from './imageProcessor';
+import { WorkerRequest, WorkerResponse } from './workerProtocol';
+import { restorePipelineError } from './errors';
+
+interface PendingRequest {
+  resolve: (result: CompressionResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: CompressionOptions['onProgress'];
+  fallback: () => void;
+}
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const supportsWorkerPipeline = (): boolean =>
+  !workerBroken &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Lazily starts the shared compression worker.
+ */
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./compression.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    switch (message.type) {
+      case 'progress':
+        request.onProgress?.(message.progress);
+        break;
+      case 'result':
+        pending.delete(message.id);
+        request.resolve(message.result);
+        break;
+      case 'error':
+        pending.delete(message.id);
+        if (message.unsupported) {
+          workerBroken = true;
+          request.fallback();
+        } else {
+          request.reject(message.errorName ? restorePipelineError(message.errorName, message.message) : new Error(message.message));
+        }
+        break;
+    }
+  };
+
+  // A worker that fails to load (e.g. CSP or old browser) sends every queued job to the main thread
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.warn('Compression worker failed, using main thread instead', event.message);
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    const queued = Array.from(pending.values());
+    pending.clear();
+    queued.forEach(request => request.fallback());
+  };
+
+  return worker;
+};
+
+/**
+ * Compresses an image to a target size in a Web Worker using OffscreenCanvas,
+ * keeping the UI responsive. Falls back to the main-thread canvas pipeline when
+ * workers or OffscreenCanvas are unavailable.
+ * Aborting `options.signal` rejects right away and stops the worker at its next encode.
+ */
+export const compressInBackground = (
+  file: File | Blob,
+  targetSizeKB: number,
+  options: CompressionOptions = {}
+): Promise<CompressionResult> => {
+  if (!supportsWorkerPipeline()) {
+    return compressImageToTarget(file, targetSizeKB, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    const { onProgress, signal, ...cloneable } = options;
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', () => {
+      // Once the worker has answered (or the job fell back to the main thread) there is nothing to cancel
+      if (!pending.delete(id)) return;
+      worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(signal.reason);
+    }, { once: true });
+
+    pending.set(id, {
+      resolve,
+      reject,
+      onProgress,
+      fallback: () => {
+        compressImageToTarget(file, targetSizeKB, options).then(resolve, reject);
+      },
+    });
+
+    const request: WorkerRequest = {
+      type: 'compress',
+      id,
+      file,
+      targetKB: targetSizeKB,
+      options: cloneable,
+    };
+
+    try {
+      getWorker().postMessage(request);
+    } catch (error) {
+      pending.delete(id);
+      workerBroken = true;
+      compressImageToTarget(file, targetSizeKB, options).then(resolve, reject);
+    }
+  });
+};
@@ -0,0 +1,8 @@
+// Shared types for the decoders that turn files the browser can't read into raw pixels.
+
+/** Straight (non-premultiplied) RGBA pixels, 4 bytes per pixel, rows top to bottom. */
+export interface DecodedPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
@@ -0,0 +1,17 @@
+// zlib streams (RFC 1950) through the platform's CompressionStream, which browsers and
+// Node 18+ both provide. Used by the TIFF and PNG codecs.
+
+const pipe = async (input: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Whether zlib data can be compressed and decompressed here.
+ */
+export const supportsDeflate = (): boolean =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export const inflate = (input: Uint8Array): Promise<Uint8Array> => pipe(input, new DecompressionStream('deflate'));
+
+export const deflate = (input: Uint8Array): Promise<Uint8Array> => pipe(input, new CompressionStream('deflate'));
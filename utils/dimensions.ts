@@ -0,0 +1,69 @@
+import { TargetDimensions } from '../types';
+
+/**
+ * Where to draw the source on an output canvas of canvasWidth × canvasHeight.
+ * The draw rect may extend past the canvas (fill mode crops by overflowing).
+ */
+export interface DimensionLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+  /** Whether the area around the draw rect needs a background fill. */
+  padded: boolean;
+}
+
+/**
+ * Works out the output canvas size and draw rect for the requested dimensions.
+ */
+export const computeDimensionLayout = (
+  sourceWidth: number,
+  sourceHeight: number,
+  target: TargetDimensions
+): DimensionLayout => {
+  const { width, height, mode } = target;
+  const full = (w: number, h: number): DimensionLayout => ({
+    canvasWidth: w,
+    canvasHeight: h,
+    dx: 0,
+    dy: 0,
+    dw: w,
+    dh: h,
+    padded: false,
+  });
+
+  if (width && !height) {
+    return full(width, Math.max(1, Math.round(sourceHeight * (width / sourceWidth))));
+  }
+  if (height && !width) {
+    return full(Math.max(1, Math.round(sourceWidth * (height / sourceHeight))), height);
+  }
+  if (!width || !height) {
+    return full(sourceWidth, sourceHeight);
+  }
+
+  const fitScale = Math.min(width / sourceWidth, height / sourceHeight);
+
+  if (mode === 'fit') {
+    return full(
+      Math.max(1, Math.round(sourceWidth * fitScale)),
+      Math.max(1, Math.round(sourceHeight * fitScale))
+    );
+  }
+
+  const scale = mode === 'fill' ? Math.max(width / sourceWidth, height / sourceHeight) : fitScale;
+  const dw = sourceWidth * scale;
+  const dh = sourceHeight * scale;
+
+  return {
+    canvasWidth: width,
+    canvasHeight: height,
+    dx: (width - dw) / 2,
+    dy: (height - dh) / 2,
+    dw,
+    dh,
+    padded: mode === 'pad',
+  };
+};
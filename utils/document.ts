@@ -0,0 +1,235 @@
+import { createCanvas, get2dContext } from './canvas';
+import { CanvasContextError } from './errors';
+import { EditSource } from './edits';
+import { DocumentOptions } from '../types';
+
+// Clean-up for scanned documents and signatures. Paper texture and grey backgrounds cost a
+// lot of bytes and carry no information, so they are turned into flat white before compressing.
+
+// Darkest share of the pixels taken as the ink level when stretching levels
+const INK_PERCENTILE = 0.01;
+// Pixels within this many levels of the paper peak are averaged into the paper colour
+const PAPER_BAND = 8;
+// The white point sits this far below the paper colour, so its texture clips to white
+const WHITE_MARGIN = 10;
+// A pixel is ink when it is this much darker than the mean of its neighbourhood
+const THRESHOLD_CONTRAST = 0.15;
+// Anything this much darker than the paper counts as content when trimming
+const CONTENT_DELTA = 48;
+// Rows and columns need more than this share of content pixels to count, which ignores specks
+const TRIM_NOISE = 0.002;
+// Space left around the content after trimming, as a share of the shorter side
+const TRIM_PADDING = 0.02;
+
+interface TrimBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Level of the paper: the most common brightness among the brighter half of the pixels.
+ */
+const findPaperLevel = (histogram: Uint32Array, total: number): number => {
+  let median = 0;
+  for (let seen = 0; median < 255 && seen + histogram[median] < total / 2; median++) {
+    seen += histogram[median];
+  }
+
+  let peak = median;
+  let peakCount = -1;
+  for (let level = median; level < 256; level++) {
+    // Smooth over neighbouring levels so one noisy bin doesn't win
+    let count = 0;
+    for (let j = Math.max(0, level - 2); j <= Math.min(255, level + 2); j++) count += histogram[j];
+    if (count > peakCount) {
+      peak = level;
+      peakCount = count;
+    }
+  }
+  return peak;
+};
+
+const findPercentile = (histogram: Uint32Array, total: number, share: number): number => {
+  let level = 0;
+  for (let seen = histogram[0]; level < 255 && seen < total * share; seen += histogram[++level]);
+  return level;
+};
+
+/**
+ * Stretches each channel so the paper colour becomes white and the ink black. Also removes a colour cast.
+ */
+const whiten = (data: Uint8ClampedArray, lum: Uint8Array, paper: number, ink: number) => {
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let p = 0, i = 0; p < lum.length; p++, i += 4) {
+    if (Math.abs(lum[p] - paper) > PAPER_BAND) continue;
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+    count++;
+  }
+
+  const scales = sum.map(total => {
+    const white = (count ? total / count : paper) - WHITE_MARGIN;
+    return 255 / Math.max(16, white - ink);
+  });
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - ink) * scales[0];
+    data[i + 1] = (data[i + 1] - ink) * scales[1];
+    data[i + 2] = (data[i + 2] - ink) * scales[2];
+  }
+};
+
+/**
+ * Adaptive threshold (Bradley–Roth): each pixel is compared with the mean of a square around it,
+ * so uneven lighting and shadows across a scan don't turn into black patches.
+ * Box sums are kept per column and slid along each row, so memory stays at one row.
+ */
+const threshold = (data: Uint8ClampedArray, lum: Uint8Array, width: number, height: number) => {
+  const radius = Math.max(8, Math.round(Math.max(width, height) / 32));
+  const columns = new Uint32Array(width);
+  const addRow = (y: number, sign: number) => {
+    for (let x = 0, p = y * width; x < width; x++, p++) columns[x] += sign * lum[p];
+  };
+
+  for (let y = 0; y < Math.min(radius, height); y++) addRow(y, 1);
+
+  for (let y = 0; y < height; y++) {
+    if (y + radius < height) addRow(y + radius, 1);
+    if (y - radius - 1 >= 0) addRow(y - radius - 1, -1);
+    const rows = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1;
+
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += columns[x];
+    for (let x = 0, p = y * width; x < width; x++, p++) {
+      if (x + radius < width) sum += columns[x + radius];
+      if (x - radius - 1 >= 0) sum -= columns[x - radius - 1];
+      const area = rows * (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+      const value = lum[p] * area < sum * (1 - THRESHOLD_CONTRAST) ? 0 : 255;
+      const i = p * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+};
+
+/**
+ * Box around everything darker than the paper, with some padding. Null when the page is empty.
+ */
+const findContent = (data: Uint8ClampedArray, width: number, height: number, paper: number): TrimBox | null => {
+  const limit = paper - CONTENT_DELTA;
+  const rowCounts = new Uint32Array(height);
+  const columnCounts = new Uint32Array(width);
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      if (luminance(data[i], data[i + 1], data[i + 2]) < limit) {
+        rowCounts[y]++;
+        columnCounts[x]++;
+      }
+    }
+  }
+
+  const span = (counts: Uint32Array, noise: number) => {
+    let start = 0;
+    let end = counts.length - 1;
+    while (start <= end && counts[start] <= noise) start++;
+    while (end >= start && counts[end] <= noise) end--;
+    return start <= end ? [start, end] : null;
+  };
+  const rows = span(rowCounts, Math.floor(width * TRIM_NOISE));
+  const columns = span(columnCounts, Math.floor(height * TRIM_NOISE));
+  if (!rows || !columns) return null;
+
+  const padding = Math.max(4, Math.round(Math.min(width, height) * TRIM_PADDING));
+  const x = Math.max(0, columns[0] - padding);
+  const y = Math.max(0, rows[0] - padding);
+  return {
+    x,
+    y,
+    width: Math.min(width, columns[1] + padding + 1) - x,
+    height: Math.min(height, rows[1] + padding + 1) - y,
+  };
+};
+
+/**
+ * Runs the enabled document clean-up steps on RGBA pixels, in place, and returns the
+ * area to keep when trimming is on (null keeps everything).
+ */
+export const processDocumentPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: DocumentOptions
+): TrimBox | null => {
+  const total = width * height;
+  const lum = new Uint8Array(total);
+  const histogram = new Uint32Array(256);
+
+  // Transparent areas of e.g. signature PNGs become paper
+  for (let p = 0, i = 0; p < total; p++, i += 4) {
+    const alpha = data[i + 3] / 255;
+    if (alpha < 1) {
+      data[i] = data[i] * alpha + 255 * (1 - alpha);
+      data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+      data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+      data[i + 3] = 255;
+    }
+    lum[p] = luminance(data[i], data[i + 1], data[i + 2]);
+    histogram[lum[p]]++;
+  }
+
+  let paper = findPaperLevel(histogram, total);
+
+  if (options.whiten) {
+    const ink = Math.min(findPercentile(histogram, total, INK_PERCENTILE), paper - 32);
+    whiten(data, lum, paper, Math.max(0, ink));
+    paper = 255;
+    for (let p = 0, i = 0; p < total; p++, i += 4) {
+      lum[p] = luminance(data[i], data[i + 1], data[i + 2]);
+    }
+  }
+
+  if (options.threshold) {
+    threshold(data, lum, width, height);
+    paper = 255;
+  } else if (options.grayscale) {
+    for (let p = 0, i = 0; p < total; p++, i += 4) {
+      data[i] = data[i + 1] = data[i + 2] = lum[p];
+    }
+  }
+
+  return options.trim ? findContent(data, width, height, paper) : null;
+};
+
+/**
+ * Applies document mode to an image. Returns the source itself when the mode is off.
+ */
+export const applyDocumentMode = (source: EditSource, options: DocumentOptions): EditSource => {
+  if (!options.enabled) return source;
+
+  const { width, height } = source;
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  if (!ctx) {
+    throw new CanvasContextError();
+  }
+
+  ctx.drawImage(source.image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const box = processDocumentPixels(pixels.data, width, height, options);
+  ctx.putImageData(pixels, 0, 0);
+  if (!box || (box.width === width && box.height === height)) {
+    return { image: canvas, width, height };
+  }
+
+  const trimmed = createCanvas(box.width, box.height);
+  const trimmedCtx = get2dContext(trimmed);
+  if (!trimmedCtx) {
+    throw new CanvasContextError();
+  }
+  trimmedCtx.drawImage(canvas, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+  return { image: trimmed, width: box.width, height: box.height };
+};
@@ -0,0 +1,238 @@
+import { AnyCanvas, createCanvas, encodeCanvas, fitCanvasLimits, get2dContext } from './canvas';
+import { drawResampled } from './resample';
+import { CanvasContextError } from './errors';
+import { applyDocumentMode } from './document';
+import { applyStamp } from './stamp';
+import { DocumentOptions, EditHistory, EditOperation, ImageFilter, ResamplingMethod, StampOptions } from '../types';
+
+// Non-destructive editing: the source file is never changed. Edits are kept as an ordered
+// list of operations that is rendered onto a canvas, once per preview and once at export.
+
+export interface EditSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+// Long side of the image the preview is rendered from
+const PREVIEW_MAX_SIDE = 2048;
+
+export const emptyEditHistory: EditHistory = { operations: [], undone: [] };
+
+/**
+ * Adds an operation to the end of the list. Anything undone can no longer be redone.
+ */
+export const pushEdit = (history: EditHistory, operation: EditOperation): EditHistory => ({
+  operations: [...history.operations, operation],
+  undone: [],
+});
+
+export const undoEdit = (history: EditHistory): EditHistory => {
+  if (history.operations.length === 0) return history;
+  return {
+    operations: history.operations.slice(0, -1),
+    undone: [...history.undone, history.operations[history.operations.length - 1]],
+  };
+};
+
+export const redoEdit = (history: EditHistory): EditHistory => {
+  if (history.undone.length === 0) return history;
+  return {
+    operations: [...history.operations, history.undone[history.undone.length - 1]],
+    undone: history.undone.slice(0, -1),
+  };
+};
+
+const FILTER_LABELS: Record<ImageFilter, string> = {
+  grayscale: 'Black & white',
+  sepia: 'Sepia',
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+};
+
+/**
+ * Short label for an operation, e.g. for undo/redo tooltips.
+ */
+export const describeEdit = (operation: EditOperation): string => {
+  switch (operation.type) {
+    case 'crop':
+      return operation.straighten ? 'Crop and straighten' : 'Crop';
+    case 'rotate':
+      return `Rotate ${operation.degrees}°`;
+    case 'flip':
+      return operation.axis === 'horizontal' ? 'Flip horizontally' : 'Flip vertically';
+    case 'resize':
+      return `Resize to ${Math.round(operation.scale * 100)}%`;
+    case 'filter':
+      return operation.filter === 'brightness' || operation.filter === 'contrast'
+        ? `${FILTER_LABELS[operation.filter]} ${operation.amount < 0 ? '−' : '+'}${Math.round(Math.abs(operation.amount) * 100)}%`
+        : FILTER_LABELS[operation.filter];
+  }
+};
+
+const newCanvas = (width: number, height: number) => {
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  if (!ctx) {
+    throw new CanvasContextError();
+  }
+  return { canvas, ctx };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Applies a colour filter to every pixel. Done on ImageData rather than ctx.filter,
+ * which not every browser (or OffscreenCanvas) supports.
+ */
+const filterPixels = (data: Uint8ClampedArray, filter: ImageFilter, amount: number) => {
+  const contrast = (1 + amount) / Math.max(0.01, 1 - amount);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    switch (filter) {
+      case 'grayscale': {
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        data[i] = r + (luma - r) * amount;
+        data[i + 1] = g + (luma - g) * amount;
+        data[i + 2] = b + (luma - b) * amount;
+        break;
+      }
+      case 'sepia':
+        data[i] = r + (0.393 * r + 0.769 * g + 0.189 * b - r) * amount;
+        data[i + 1] = g + (0.349 * r + 0.686 * g + 0.168 * b - g) * amount;
+        data[i + 2] = b + (0.272 * r + 0.534 * g + 0.131 * b - b) * amount;
+        break;
+      case 'brightness':
+        data[i] = r + 255 * amount;
+        data[i + 1] = g + 255 * amount;
+        data[i + 2] = b + 255 * amount;
+        break;
+      case 'contrast':
+        data[i] = (r - 128) * contrast + 128;
+        data[i + 1] = (g - 128) * contrast + 128;
+        data[i + 2] = (b - 128) * contrast + 128;
+        break;
+    }
+  }
+};
+
+/**
+ * How much an image rotated by `degrees` must be enlarged to still cover its original frame.
+ */
+export const straightenScale = (width: number, height: number, degrees: number): number => {
+  const radians = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+const straighten = (source: EditSource, degrees: number): EditSource => {
+  const { image, width, height } = source;
+  const scale = straightenScale(width, height, degrees);
+  const { canvas, ctx } = newCanvas(width, height);
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, -width / 2, -height / 2);
+  return { image: canvas, width, height };
+};
+
+const applyEdit = (source: EditSource, operation: EditOperation, resampling?: ResamplingMethod): EditSource => {
+  const { image, width, height } = source;
+
+  switch (operation.type) {
+    case 'crop': {
+      const x = clamp(Math.round(operation.x * width), 0, width - 1);
+      const y = clamp(Math.round(operation.y * height), 0, height - 1);
+      const w = clamp(Math.round(operation.width * width), 1, width - x);
+      const h = clamp(Math.round(operation.height * height), 1, height - y);
+      const frame = operation.straighten ? straighten(source, operation.straighten).image : image;
+      const { canvas, ctx } = newCanvas(w, h);
+      ctx.drawImage(frame, x, y, w, h, 0, 0, w, h);
+      return { image: canvas, width: w, height: h };
+    }
+    case 'rotate': {
+      const swap = operation.degrees !== 180;
+      const w = swap ? height : width;
+      const h = swap ? width : height;
+      const { canvas, ctx } = newCanvas(w, h);
+      ctx.translate(w / 2, h / 2);
+      ctx.rotate((operation.degrees * Math.PI) / 180);
+      ctx.drawImage(image, -width / 2, -height / 2);
+      return { image: canvas, width: w, height: h };
+    }
+    case 'flip': {
+      const { canvas, ctx } = newCanvas(width, height);
+      if (operation.axis === 'horizontal') {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, height);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(image, 0, 0);
+      return { image: canvas, width, height };
+    }
+    case 'resize': {
+      const fit = fitCanvasLimits(
+        Math.max(1, Math.round(width * operation.scale)),
+        Math.max(1, Math.round(height * operation.scale))
+      );
+      const { canvas, ctx } = newCanvas(fit.width, fit.height);
+      drawResampled(ctx, source, 0, 0, fit.width, fit.height, resampling);
+      return { image: canvas, width: fit.width, height: fit.height };
+    }
+    case 'filter': {
+      const { canvas, ctx } = newCanvas(width, height);
+      ctx.drawImage(image, 0, 0);
+      const pixels = ctx.getImageData(0, 0, width, height);
+      filterPixels(pixels.data, operation.filter, operation.amount);
+      ctx.putImageData(pixels, 0, 0);
+      return { image: canvas, width, height };
+    }
+  }
+};
+
+/**
+ * Renders the edit list onto the source, in order. Returns the source itself when the list is empty.
+ */
+export const applyEdits = (
+  source: EditSource,
+  operations: EditOperation[],
+  resampling?: ResamplingMethod
+): EditSource => operations.reduce((current, operation) => applyEdit(current, operation, resampling), source);
+
+/**
+ * Scales a decoded source down to preview size, so edits can be previewed quickly.
+ */
+export const createPreviewSource = (source: EditSource): EditSource => {
+  const ratio = Math.min(1, PREVIEW_MAX_SIDE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * ratio));
+  const height = Math.max(1, Math.round(source.height * ratio));
+  const { canvas, ctx } = newCanvas(width, height);
+  drawResampled(ctx, source, 0, 0, width, height, 'stepwise');
+  return { image: canvas, width, height };
+};
+
+/**
+ * Renders the edited preview as an image file for display, with document mode and the stamp
+ * (tokens already filled in) on top when given, in the order the pipeline applies them.
+ * `preview` comes from createPreviewSource, so even with no edits there is a canvas to encode.
+ */
+export const renderEditedPreview = (
+  preview: EditSource,
+  operations: EditOperation[],
+  type: string,
+  layers: { document?: DocumentOptions; stamp?: StampOptions } = {}
+): Promise<Blob> => {
+  let rendered = applyEdits(preview, operations);
+  if (layers.document) rendered = applyDocumentMode(rendered, layers.document);
+  if (layers.stamp) rendered = applyStamp(rendered, layers.stamp);
+  return encodeCanvas(rendered.image as AnyCanvas, type, 0.92);
+};
@@ -0,0 +1,76 @@
+// Errors the pipeline throws on purpose. Their messages are written for the user and
+// can be shown as they are; anything else is an unexpected bug.
+
+/**
+ * Thrown when a file or an encoded candidate can't be decoded as an image.
+ */
+export class ImageDecodeError extends Error {
+  constructor(message = "The image couldn't be read. The file may be damaged.") {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+/**
+ * Thrown when a file is not an image we can read (unknown format, or a variant our
+ * decoders don't handle).
+ */
+export class UnsupportedImageError extends ImageDecodeError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+/**
+ * Thrown when the browser won't create a canvas or its 2D context, usually because the
+ * image is too large or memory is low.
+ */
+export class CanvasContextError extends Error {
+  constructor(message = "The browser couldn't create a canvas for this image. Close other tabs or try smaller dimensions.") {
+    super(message);
+    this.name = 'CanvasContextError';
+  }
+}
+
+/**
+ * Thrown when encoding a canvas produces no data.
+ */
+export class EmptyCanvasError extends Error {
+  constructor(message = "The browser couldn't encode the image. Try smaller dimensions or another format.") {
+    super(message);
+    this.name = 'EmptyCanvasError';
+  }
+}
+
+/**
+ * Thrown when a target size can't even hold the file structure, before any image data.
+ */
+export class TargetTooSmallError extends Error {
+  constructor(message = 'The target size is too small for this file. Raise it and try again.') {
+    super(message);
+    this.name = 'TargetTooSmallError';
+  }
+}
+
+const PIPELINE_ERRORS = {
+  ImageDecodeError,
+  UnsupportedImageError,
+  CanvasContextError,
+  EmptyCanvasError,
+  TargetTooSmallError,
+};
+
+export type PipelineErrorName = keyof typeof PIPELINE_ERRORS;
+
+/**
+ * Whether an error is one of the above, i.e. its message can be shown to the user.
+ */
+export const isPipelineError = (error: unknown): error is Error =>
+  error instanceof Error && error.name in PIPELINE_ERRORS;
+
+/**
+ * Recreates a pipeline error from its name and message, e.g. after it crossed the worker boundary.
+ */
+export const restorePipelineError = (name: PipelineErrorName, message: string): Error =>
+  new PIPELINE_ERRORS[name](message);
@@ -0,0 +1,356 @@
+import { readJpegSegments } from './jpegSegments';
+import { MetadataOptions } from '../types';
+
+// Minimal EXIF support: read the orientation and a handful of tags from a JPEG's
+// APP1 segment, and write a fresh APP1 segment containing only the tags the user kept.
+// Values are stored big-endian regardless of the source byte order, so entries can be
+// cloned into the worker and written back without knowing where they came from.
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Raw value bytes, big-endian. */
+  data: Uint8Array;
+}
+
+export interface ExifData {
+  /** EXIF orientation 1–8; 1 means the pixels are already upright. */
+  orientation: number;
+  ifd0: ExifEntry[];
+  exif: ExifEntry[];
+  gps: ExifEntry[];
+}
+
+/** Human-readable summary of what a photo carries, for the metadata settings. */
+export interface ExifSummary {
+  captureDate?: string;
+  camera?: string;
+  hasGps: boolean;
+}
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const CAMERA_TAGS = [TAG_MAKE, TAG_MODEL];
+const DATE_TAGS = [TAG_DATE_TIME, TAG_DATE_TIME_ORIGINAL, TAG_DATE_TIME_DIGITIZED, TAG_OFFSET_TIME_ORIGINAL];
+
+// Byte size of one component for each TIFF type; types not listed are skipped
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+// Width of the numbers a component is made of (rationals are two 32-bit numbers)
+const wordSize = (type: number) => (type === 3 ? 2 : type === 4 || type === 5 || type === 9 || type === 10 ? 4 : 1);
+
+// "Exif\0\0"
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+// Only the start of the file is read; the APP1 segment sits before the image data
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+/**
+ * Reads the entries of one TIFF IFD. `view` spans the TIFF data (offsets are relative to it).
+ * Also used by the TIFF decoder.
+ */
+export const readTiffIfd = (view: DataView, offset: number, little: boolean): ExifEntry[] => {
+  if (offset + 2 > view.byteLength) return [];
+
+  const count = view.getUint16(offset, little);
+  const entries: ExifEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    if (at + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(at, little);
+    const type = view.getUint16(at + 2, little);
+    const components = view.getUint32(at + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const length = size * components;
+    const valueOffset = length <= 4 ? at + 8 : view.getUint32(at + 8, little);
+    if (valueOffset + length > view.byteLength) continue;
+
+    // Copy the value, swapping each word to big-endian
+    const data = new Uint8Array(length);
+    const word = wordSize(type);
+    for (let b = 0; b < length; b += word) {
+      for (let k = 0; k < word; k++) {
+        data[b + k] = view.getUint8(valueOffset + b + (little ? word - 1 - k : k));
+      }
+    }
+
+    entries.push({ tag, type, count: components, data });
+  }
+
+  return entries;
+};
+
+const findEntry = (entries: ExifEntry[], tag: number) => entries.find(e => e.tag === tag);
+
+/**
+ * Numeric values of a BYTE, SHORT or LONG entry (empty for other types).
+ */
+export const entryValues = (entry: ExifEntry | undefined): number[] => {
+  if (!entry) return [];
+  const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    if (entry.type === TYPE_BYTE) values.push(view.getUint8(i));
+    else if (entry.type === TYPE_SHORT) values.push(view.getUint16(i * 2));
+    else if (entry.type === TYPE_LONG) values.push(view.getUint32(i * 4));
+    else break;
+  }
+  return values;
+};
+
+const entryNumber = (entry: ExifEntry | undefined): number | undefined => entryValues(entry)[0];
+
+const entryText = (entry: ExifEntry | undefined): string | undefined => {
+  if (!entry || entry.type !== TYPE_ASCII) return undefined;
+  const text = new TextDecoder().decode(entry.data).replace(/\0+$/, '').trim();
+  return text || undefined;
+};
+
+/**
+ * Parses a TIFF structure: the body of an APP1 "Exif" payload, or a whole TIFF file.
+ */
+const parseTiffStructure = (tiff: Uint8Array): ExifData | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+
+  const ifd0 = readTiffIfd(view, view.getUint32(4, little), little);
+  const exifOffset = entryNumber(findEntry(ifd0, TAG_EXIF_IFD));
+  const gpsOffset = entryNumber(findEntry(ifd0, TAG_GPS_IFD));
+  const orientation = entryNumber(findEntry(ifd0, TAG_ORIENTATION)) ?? 1;
+
+  return {
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+    ifd0,
+    exif: exifOffset ? readTiffIfd(view, exifOffset, little) : [],
+    gps: gpsOffset ? readTiffIfd(view, gpsOffset, little) : [],
+  };
+};
+
+/**
+ * Parses the TIFF structure inside an APP1 "Exif" payload.
+ */
+export const parseExifPayload = (payload: Uint8Array): ExifData | null => {
+  if (payload.length < 14 || EXIF_HEADER.some((byte, i) => payload[i] !== byte)) return null;
+  return parseTiffStructure(payload.subarray(6));
+};
+
+/**
+ * Reads EXIF data from a JPEG file, or the tags of a TIFF file's first IFD (orientation,
+ * camera, date). Returns null for other formats or files without EXIF.
+ */
+export const readExif = async (file: Blob): Promise<ExifData | null> => {
+  const data = new Uint8Array(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+
+  // TIFF: "II*\0" or "MM\0*". Its IFDs can sit anywhere, so the whole file is read
+  if ((data[0] === 0x49 && data[1] === 0x49 && data[2] === 0x2a && data[3] === 0) ||
+      (data[0] === 0x4d && data[1] === 0x4d && data[2] === 0 && data[3] === 0x2a)) {
+    return parseTiffStructure(file.size > data.length ? new Uint8Array(await file.arrayBuffer()) : data);
+  }
+
+  for (const { marker, payload } of readJpegSegments(data)) {
+    if (marker === 0xe1) {
+      const exif = parseExifPayload(payload);
+      if (exif) return exif;
+    }
+  }
+  return null;
+};
+
+/**
+ * Describes the capture date, camera and location a photo carries.
+ */
+export const summarizeExif = (exif: ExifData): ExifSummary => {
+  const make = entryText(findEntry(exif.ifd0, TAG_MAKE));
+  const model = entryText(findEntry(exif.ifd0, TAG_MODEL));
+
+  return {
+    captureDate: entryText(findEntry(exif.exif, TAG_DATE_TIME_ORIGINAL)) ?? entryText(findEntry(exif.ifd0, TAG_DATE_TIME)),
+    // Models often repeat the make ("Canon" / "Canon EOS R6")
+    camera: model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+    hasGps: exif.gps.length > 0,
+  };
+};
+
+/**
+ * Parses an EXIF date ("YYYY:MM:DD HH:MM:SS", local time). Undefined when it isn't one.
+ */
+export const parseExifDate = (value: string | undefined): Date | undefined => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})(?: (\d{2}):(\d{2}):(\d{2}))?/);
+  if (!match) return undefined;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) || year === 0 ? undefined : date;
+};
+
+/**
+ * Whether any of the options would keep something in the output.
+ */
+export const keepsMetadata = (options: MetadataOptions): boolean =>
+  options.keepDate || options.keepCamera || options.keepGps;
+
+const shortEntry = (tag: number, value: number): ExifEntry => ({
+  tag,
+  type: TYPE_SHORT,
+  count: 1,
+  data: new Uint8Array([value >> 8, value & 0xff]),
+});
+
+const pointerEntry = (tag: number): ExifEntry => ({
+  tag,
+  type: TYPE_LONG,
+  count: 1,
+  data: new Uint8Array(4),
+});
+
+// Size of an IFD including its out-of-line values
+const ifdSize = (entries: ExifEntry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length & 1) : 0), 0);
+
+const writeIfd = (
+  out: Uint8Array,
+  view: DataView,
+  offset: number,
+  entries: ExifEntry[],
+  pointers: Map<number, number>
+) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length);
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, entry.tag);
+    view.setUint16(at + 2, entry.type);
+    view.setUint32(at + 4, entry.count);
+
+    const pointer = pointers.get(entry.tag);
+    if (pointer !== undefined) {
+      view.setUint32(at + 8, pointer);
+    } else if (entry.data.length <= 4) {
+      out.set(entry.data, at + 8);
+    } else {
+      view.setUint32(at + 8, dataOffset);
+      out.set(entry.data, dataOffset);
+      // Values start on word boundaries
+      dataOffset += entry.data.length + (entry.data.length & 1);
+    }
+  });
+  // Next IFD offset stays 0
+};
+
+// Serializes the given IFDs into a complete APP1 segment (marker included)
+const writeExifSegment = (ifd0: ExifEntry[], exifIfd: ExifEntry[], gpsIfd: ExifEntry[]): Uint8Array | null => {
+  ifd0 = [...ifd0];
+  if (exifIfd.length > 0) ifd0.push(pointerEntry(TAG_EXIF_IFD));
+  if (gpsIfd.length > 0) ifd0.push(pointerEntry(TAG_GPS_IFD));
+
+  // TIFF layout: header (8) | IFD0 | Exif IFD | GPS IFD
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exifIfd.length > 0 ? ifdSize(exifIfd) : 0);
+  const tiffLength = gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0);
+
+  const payloadLength = EXIF_HEADER.length + tiffLength;
+  if (payloadLength + 2 > 0xffff) return null;
+
+  const segment = new Uint8Array(4 + payloadLength);
+  const segmentView = new DataView(segment.buffer);
+  segment[0] = 0xff;
+  segment[1] = 0xe1; // APP1
+  segmentView.setUint16(2, payloadLength + 2);
+  segment.set(EXIF_HEADER, 4);
+
+  const tiffStart = 4 + EXIF_HEADER.length;
+  const tiff = segment.subarray(tiffStart);
+  const view = new DataView(segment.buffer, tiffStart);
+  view.setUint16(0, 0x4d4d); // "MM": big-endian
+  view.setUint16(2, 42);
+  view.setUint32(4, ifd0Offset);
+
+  const pointers = new Map<number, number>([[TAG_EXIF_IFD, exifOffset], [TAG_GPS_IFD, gpsOffset]]);
+  writeIfd(tiff, view, ifd0Offset, ifd0, pointers);
+  if (exifIfd.length > 0) writeIfd(tiff, view, exifOffset, exifIfd, pointers);
+  if (gpsIfd.length > 0) writeIfd(tiff, view, gpsOffset, gpsIfd, pointers);
+
+  return segment;
+};
+
+/**
+ * Builds a complete APP1 segment (marker included) with only the tags selected in `options`.
+ * The orientation is written as 1 because the pipeline outputs upright pixels.
+ * Returns null when nothing would be kept.
+ */
+export const buildExifSegment = (exif: ExifData, options: MetadataOptions): Uint8Array | null => {
+  const pick = (entries: ExifEntry[], tags: number[]) => entries.filter(e => tags.includes(e.tag));
+  const keptTags = [...(options.keepCamera ? CAMERA_TAGS : []), ...(options.keepDate ? DATE_TAGS : [])];
+
+  const ifd0 = pick(exif.ifd0, keptTags);
+  const exifIfd = pick(exif.exif, keptTags);
+  const gpsIfd = options.keepGps ? exif.gps : [];
+
+  if (ifd0.length === 0 && exifIfd.length === 0 && gpsIfd.length === 0) return null;
+
+  return writeExifSegment([...ifd0, shortEntry(TAG_ORIENTATION, 1)], exifIfd, gpsIfd);
+};
+
+/**
+ * Builds an APP1 segment that only carries an orientation tag.
+ */
+export const buildOrientationSegment = (orientation: number): Uint8Array =>
+  writeExifSegment([shortEntry(TAG_ORIENTATION, orientation)], [], [])!;
+
+/**
+ * Whether the orientation swaps width and height (the 90° rotations).
+ */
+export const orientationSwapsAxes = (orientation: number): boolean => orientation >= 5 && orientation <= 8;
+
+/**
+ * Sets up a 2D context so that drawing the raw (sensor-oriented) image at 0,0 with its
+ * raw width/height produces the upright image. `width`/`height` are the raw dimensions.
+ */
+export const applyOrientationTransform = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+): void => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break; // Mirror horizontal
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break; // Rotate 180°
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break; // Mirror vertical
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break; // Mirror horizontal + rotate 270° CW
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break; // Rotate 90° CW
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break; // Mirror horizontal + rotate 90° CW
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break; // Rotate 270° CW
+    default: break;
+  }
+};
@@ -35,13 +35,62 @@ export const formatFileSizeDual = (bytes: number): string => {
 };
 
 /**
- * Converts a File or Blob to an Image object.
+ * Loads an image element from a URL (e.g. an existing object URL).
  */
-export const fileToImage = (file: Blob): Promise<HTMLImageElement> => {
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => resolve(img);
     img.onerror = reject;
-    img.src = URL.createObjectURL(file);
+    img.src = url;
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Converts a File or Blob to an Image object.
+ * The temporary object URL is revoked once the image has loaded (or failed to).
+ */
+export const fileToImage = (file: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  return loadImage(url).finally(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Returns the file name without its extension.
+ */
+export const getBaseName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+/**
+ * Triggers a browser download for an object URL.
+ */
+export const downloadUrl = (url: string, fileName: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Returns the file extension (without the dot) to use for an image MIME type.
+ */
+export const getExtensionForMime = (mimeType: string): string => {
+  switch (mimeType) {
+    case 'image/png':
+      return 'png';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'jpg';
+  }
+};
+
+/**
+ * Whether a size in bytes lies inside an inclusive min–max window.
+ */
+export const isWithinRange = (bytes: number, range: { minSize: number; maxSize: number }): boolean =>
+  bytes >= range.minSize && bytes <= range.maxSize;
@@ -0,0 +1,61 @@
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+
+// HEIC/HEIF decoding through libheif compiled to WebAssembly. The module is large,
+// so it is only loaded the first time a HEIC file is opened.
+
+interface HeifImage {
+  get_width(): number;
+  get_height(): number;
+  is_primary(): boolean;
+  display(
+    target: { data: Uint8ClampedArray; width: number; height: number },
+    callback: (result: unknown) => void
+  ): void;
+  free(): void;
+}
+
+interface Libheif {
+  HeifDecoder: new () => { decode(data: Uint8Array): HeifImage[] };
+}
+
+let libheif: Promise<Libheif> | null = null;
+
+const loadLibheif = (): Promise<Libheif> => {
+  libheif ??= import('libheif-js/wasm-bundle')
+    .then(module => (module.default ?? module) as Libheif)
+    .catch((error) => {
+      libheif = null;
+      console.error('Could not load the HEIC decoder', error);
+      throw new UnsupportedImageError('The HEIC decoder could not be loaded. Check your connection and try again.');
+    });
+  return libheif;
+};
+
+/**
+ * Decodes the primary image of a HEIC/HEIF file to RGBA pixels.
+ */
+export const decodeHeic = async (bytes: Uint8Array): Promise<DecodedPixels> => {
+  const lib = await loadLibheif();
+  const images = new lib.HeifDecoder().decode(bytes);
+  const image = images.find(i => i.is_primary()) || images[0];
+
+  if (!image) {
+    throw new UnsupportedImageError('This HEIC file is damaged or uses features that are not supported');
+  }
+
+  try {
+    const width = image.get_width();
+    const height = image.get_height();
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    const decoded = await new Promise<unknown>((resolve) => image.display({ data, width, height }, resolve));
+    if (!decoded) {
+      throw new UnsupportedImageError('This HEIC file could not be decoded');
+    }
+
+    return { width, height, data };
+  } finally {
+    images.forEach(i => i.free());
+  }
+};
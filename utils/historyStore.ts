@@ -0,0 +1,161 @@
+import { HistoryItem } from '../types';
+
+const DB_NAME = 'pic-resize-in-kbs';
+const DB_VERSION = 1;
+const STORE = 'history';
+// Byte size per record, so the quota can be enforced without reading any blobs
+const SIZES_STORE = 'sizes';
+const QUOTA_KEY = 'picresize.historyQuotaMB';
+
+export const DEFAULT_HISTORY_QUOTA_MB = 50;
+export const HISTORY_QUOTA_OPTIONS_MB = [10, 25, 50, 100, 250];
+
+/**
+ * What is persisted per history entry. The object URL is recreated on load.
+ */
+export interface StoredHistoryRecord extends Omit<HistoryItem, 'url'> {
+  blob: Blob;
+}
+
+interface StoredSize {
+  id: string;
+  timestamp: number;
+  size: number;
+}
+
+const toStoredSize = (record: StoredHistoryRecord): StoredSize => ({
+  id: record.id,
+  timestamp: record.timestamp,
+  size: record.blob.size,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(SIZES_STORE)) {
+        db.createObjectStore(SIZES_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Reads the user's history quota (in MB) from local settings.
+ */
+export const getHistoryQuotaMB = (): number => {
+  const stored = Number(localStorage.getItem(QUOTA_KEY));
+  return stored > 0 ? stored : DEFAULT_HISTORY_QUOTA_MB;
+};
+
+export const setHistoryQuotaMB = (mb: number): void => {
+  localStorage.setItem(QUOTA_KEY, String(mb));
+};
+
+/**
+ * Loads all stored history records, newest first.
+ */
+export const loadHistoryRecords = async (): Promise<StoredHistoryRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const records = await promisifyRequest(tx.objectStore(STORE).getAll() as IDBRequest<StoredHistoryRecord[]>);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Removes the oldest records until the total blob size fits the quota.
+ * Only the stored sizes are read. Returns the ids that were evicted.
+ */
+export const enforceHistoryQuota = async (quotaMB: number = getHistoryQuotaMB()): Promise<string[]> => {
+  const quotaBytes = quotaMB * 1024 * 1024;
+  const db = await openDb();
+  const sizes = await promisifyRequest(
+    db.transaction(SIZES_STORE, 'readonly').objectStore(SIZES_STORE).getAll() as IDBRequest<StoredSize[]>
+  );
+  sizes.sort((a, b) => a.timestamp - b.timestamp);
+  let total = sizes.reduce((sum, entry) => sum + entry.size, 0);
+
+  const evicted: string[] = [];
+  for (const entry of sizes) {
+    if (total <= quotaBytes) break;
+    evicted.push(entry.id);
+    total -= entry.size;
+  }
+
+  if (evicted.length > 0) {
+    const tx = db.transaction([STORE, SIZES_STORE], 'readwrite');
+    evicted.forEach((id) => {
+      tx.objectStore(STORE).delete(id);
+      tx.objectStore(SIZES_STORE).delete(id);
+    });
+    await transactionDone(tx);
+  }
+
+  return evicted;
+};
+
+/**
+ * Persists a history record and evicts older ones if the quota is exceeded.
+ * Returns the ids that were evicted to make room.
+ */
+export const saveHistoryRecord = async (record: StoredHistoryRecord): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE, SIZES_STORE], 'readwrite');
+  tx.objectStore(STORE).put(record);
+  tx.objectStore(SIZES_STORE).put(toStoredSize(record));
+  await transactionDone(tx);
+  return enforceHistoryQuota();
+};
+
+export const deleteHistoryRecord = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE, SIZES_STORE], 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  tx.objectStore(SIZES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearHistoryRecords = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE, SIZES_STORE], 'readwrite');
+  tx.objectStore(STORE).clear();
+  tx.objectStore(SIZES_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,40 @@
+import { DecodedPixels } from './decodedPixels';
+import { ResamplingMethod } from '../types';
+
+// The image operations the size search is built on, so the same search runs on the
+// browser canvas (utils/canvasBackend) or on plain pixel arrays with our own codecs
+// (utils/pixelBackend, used by the command-line tool).
+
+/** An image in a backend's own representation, with its size. */
+export interface SizedImage<Image> {
+  image: Image;
+  width: number;
+  height: number;
+}
+
+/**
+ * Draws, encodes and decodes images. `Image` is what sources and decoded candidates are
+ * held as; `Frame` is what render produces for encoding.
+ */
+export interface ImageBackend<Image, Frame = Image> {
+  /**
+   * Draws the source at width × height with the given resampling method. The frame may
+   * be a shared surface that the next render overwrites.
+   */
+  render(source: SizedImage<Image>, width: number, height: number, resampling?: ResamplingMethod): Frame;
+  /**
+   * Encodes a rendered frame; `quality` is 0–1. Like canvas.toBlob, a type the backend
+   * can't encode comes back as PNG.
+   */
+  encode(frame: Frame, type: string, quality: number): Promise<Blob>;
+  /** Decodes an encoded image, e.g. a candidate to score. */
+  decode(blob: Blob): Promise<SizedImage<Image> & { release: () => void }>;
+  /** RGBA pixels of an image, stretched to width × height. */
+  readPixels(source: SizedImage<Image>, width: number, height: number): DecodedPixels;
+  /** Whether any pixel is not fully opaque. */
+  hasTransparency(source: SizedImage<Image>): boolean;
+  /** The image composited onto a solid CSS colour. */
+  flatten(source: SizedImage<Image>, background: string): Image;
+  /** Whether an image this large can be rendered. */
+  fits(width: number, height: number): boolean;
+}
@@ -0,0 +1,310 @@
+import { fileToImage } from './fileHelpers';
+import { createCanvas, encodeCanvas, fitCanvasLimits, get2dContext } from './canvas';
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+import { resamplePixels } from './resample';
+import { decodeBmp } from './bmpDecoder';
+import { decodeTiff } from './tiffDecoder';
+import { decodeHeic } from './heicDecoder';
+import { insertJpegSegments, readJpegSegments } from './jpegSegments';
+import { buildOrientationSegment, orientationSwapsAxes } from './exif';
+
+// Decoder layer: identifies a file by its magic bytes (the MIME type from the OS is often
+// empty or wrong for HEIC/TIFF) and decodes it either natively or with our own decoders.
+// Images larger than the browser's canvas limits are scaled down while decoding, since
+// every later step draws them onto a canvas.
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'tiff' | 'heic' | 'avif' | 'unknown';
+
+/** How a decoded image was produced: by the browser (bitmap / img element) or by our decoders. */
+export type DecoderKind = 'bitmap' | 'element' | 'pixels';
+
+export interface DecodedImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  /** MIME type of the detected format. */
+  type: string;
+  decoder: DecoderKind;
+  /** Full size of the file, when it had to be scaled down to fit the canvas limits. */
+  downscaledFrom?: { width: number; height: number };
+  /** Frees the decoded image. */
+  release: () => void;
+}
+
+const FORMAT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  avif: 'image/avif',
+  unknown: '',
+};
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  gif: 'GIF',
+  webp: 'WebP',
+  bmp: 'BMP',
+  tiff: 'TIFF',
+  heic: 'HEIC',
+  avif: 'AVIF',
+  unknown: 'this',
+};
+
+// ISO-BMFF brands of HEIF files with HEVC images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// Enough of a JPEG to reach its frame header past large EXIF and ICC segments
+const JPEG_HEADER_BYTES = 256 * 1024;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Identifies an image format from the first bytes of a file.
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    // Major brand, then the compatible brands that fill the rest of the box
+    const boxSize = Math.min(bytes.length, (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]);
+    const brands = [ascii(bytes, 8, 4)];
+    for (let at = 16; at + 4 <= boxSize; at += 4) brands.push(ascii(bytes, at, 4));
+
+    // AVIF files also list mif1, so check them first
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Reads the start of a file and identifies its format.
+ */
+export const sniffImageFormat = async (file: Blob): Promise<ImageFormat> =>
+  detectImageFormat(new Uint8Array(await file.slice(0, 64).arrayBuffer()));
+
+/**
+ * Reads the stored width and height from a file's header, without decoding it. Null when
+ * they can't be found there (e.g. AVIF, or a JPEG with huge segments before its frame).
+ */
+const readImageSize = async (file: Blob, format: ImageFormat): Promise<{ width: number; height: number } | null> => {
+  const bytes = new Uint8Array(await file.slice(0, format === 'jpeg' ? JPEG_HEADER_BYTES : 32).arrayBuffer());
+  if (format === 'jpeg') {
+    for (const { marker, payload } of readJpegSegments(bytes)) {
+      // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: (payload[3] << 8) | payload[4], height: (payload[1] << 8) | payload[2] };
+      }
+    }
+    return null;
+  }
+  if (bytes.length < 30) return null;
+
+  const view = new DataView(bytes.buffer);
+  switch (format) {
+    case 'png':
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    case 'gif':
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    case 'bmp':
+      // Negative heights mean top-down rows
+      return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+    case 'webp': {
+      const chunk = ascii(bytes, 12, 4);
+      if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      if (chunk === 'VP8L') {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === 'VP8X') {
+        return {
+          width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+          height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+        };
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+type Decoder = Exclude<DecoderKind, 'pixels'>;
+const autoOrientation: Partial<Record<Decoder, Promise<boolean>>> = {};
+
+/**
+ * Whether a decoder already applies EXIF orientation (current browsers do, older ones don't).
+ * Found once by decoding a 2×1 JPEG tagged "rotate 90°" and checking whether it comes out 1×2.
+ */
+export const decoderAppliesOrientation = (decoder: Decoder): Promise<boolean> => {
+  autoOrientation[decoder] ??= (async () => {
+    const canvas = createCanvas(2, 1);
+    get2dContext(canvas)?.fillRect(0, 0, 2, 1);
+    const jpeg = await encodeCanvas(canvas, 'image/jpeg', 0.5);
+    const probe = await insertJpegSegments(jpeg, [buildOrientationSegment(6)]);
+
+    if (decoder === 'bitmap') {
+      const bitmap = await createImageBitmap(probe);
+      const rotated = bitmap.height === 2;
+      bitmap.close();
+      return rotated;
+    }
+    const image = await fileToImage(probe);
+    return image.naturalHeight === 2;
+  })().catch(() => true);
+
+  return autoOrientation[decoder]!;
+};
+
+/**
+ * Wraps decoded pixels (from our decoders, or an ImageData) in something the canvas can draw.
+ */
+export const decodePixels = async (pixels: DecodedPixels, type: string): Promise<DecodedImage> => {
+  const fit = fitCanvasLimits(pixels.width, pixels.height);
+  const base = {
+    width: fit.width,
+    height: fit.height,
+    type,
+    decoder: 'pixels' as const,
+    downscaledFrom: fit.scaled ? { width: pixels.width, height: pixels.height } : undefined,
+  };
+
+  if (typeof createImageBitmap !== 'undefined') {
+    const imageData = new ImageData(pixels.data, pixels.width, pixels.height);
+    const bitmap = await createImageBitmap(
+      imageData,
+      fit.scaled ? { resizeWidth: fit.width, resizeHeight: fit.height, resizeQuality: 'high' } : {}
+    );
+    return { ...base, image: bitmap, release: () => bitmap.close() };
+  }
+
+  const fitted = fit.scaled ? resamplePixels(pixels, fit.width, fit.height, 'bicubic') : pixels;
+  const canvas = createCanvas(fit.width, fit.height);
+  get2dContext(canvas)?.putImageData(new ImageData(fitted.data, fit.width, fit.height), 0, 0);
+  return { ...base, image: canvas, release: () => {} };
+};
+
+const decodeNatively = async (file: Blob, type: string, format: ImageFormat, orientation: number): Promise<DecodedImage> => {
+  if (typeof createImageBitmap !== 'undefined') {
+    const stored = await readImageSize(file, format);
+    if (stored) {
+      // The bitmap comes out upright if the browser applies the EXIF orientation
+      const turned = orientationSwapsAxes(orientation) && (await decoderAppliesOrientation('bitmap'));
+      const full = turned ? { width: stored.height, height: stored.width } : stored;
+      const fit = fitCanvasLimits(full.width, full.height);
+      // Decoded straight at the fitted size, so an oversized image never needs its full pixel buffer
+      const image = await createImageBitmap(
+        file,
+        fit.scaled ? { resizeWidth: fit.width, resizeHeight: fit.height, resizeQuality: 'high' } : {}
+      );
+      return {
+        image,
+        width: image.width,
+        height: image.height,
+        type,
+        decoder: 'bitmap',
+        downscaledFrom: fit.scaled ? full : undefined,
+        release: () => image.close(),
+      };
+    }
+
+    // Size unknown up front: decode, then shrink. A bitmap isn't bound by the canvas
+    // limits, so it can be resized before anything draws it.
+    let bitmap = await createImageBitmap(file);
+    const full = { width: bitmap.width, height: bitmap.height };
+    const fit = fitCanvasLimits(full.width, full.height);
+
+    if (fit.scaled) {
+      const resized = await createImageBitmap(bitmap, {
+        resizeWidth: fit.width,
+        resizeHeight: fit.height,
+        resizeQuality: 'high',
+      });
+      bitmap.close();
+      bitmap = resized;
+    }
+
+    const image = bitmap;
+    return {
+      image,
+      width: image.width,
+      height: image.height,
+      type,
+      decoder: 'bitmap',
+      downscaledFrom: fit.scaled ? full : undefined,
+      release: () => image.close(),
+    };
+  }
+
+  const element = await fileToImage(file);
+  const full = { width: element.naturalWidth, height: element.naturalHeight };
+  const fit = fitCanvasLimits(full.width, full.height);
+  let image: CanvasImageSource = element;
+
+  if (fit.scaled) {
+    const canvas = createCanvas(fit.width, fit.height);
+    const ctx = get2dContext(canvas);
+    if (ctx) {
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(element, 0, 0, fit.width, fit.height);
+      image = canvas;
+    }
+  }
+
+  return {
+    image,
+    width: image === element ? full.width : fit.width,
+    height: image === element ? full.height : fit.height,
+    type,
+    decoder: 'element',
+    downscaledFrom: image === element ? undefined : full,
+    release: () => {},
+  };
+};
+
+/**
+ * Decodes any supported image file. HEIC and TIFF go through our own decoders,
+ * everything else through the browser, with a pure TypeScript fallback for BMP.
+ * The result is scaled down to fit the canvas limits (see downscaledFrom). `orientation` is the
+ * file's EXIF orientation, needed to size images the browser turns upright while decoding.
+ * Throws UnsupportedImageError with a user-facing message when the file can't be read.
+ */
+export const decodeImageFile = async (file: Blob, orientation = 1): Promise<DecodedImage> => {
+  const format = await sniffImageFormat(file);
+  const type = FORMAT_TYPES[format] || file.type;
+
+  if (format === 'heic') {
+    return decodePixels(await decodeHeic(new Uint8Array(await file.arrayBuffer())), type);
+  }
+  if (format === 'tiff') {
+    return decodePixels(await decodeTiff(new Uint8Array(await file.arrayBuffer())), type);
+  }
+
+  try {
+    return await decodeNatively(file, type, format, orientation);
+  } catch (error) {
+    if (format === 'bmp') {
+      return decodePixels(decodeBmp(new Uint8Array(await file.arrayBuffer())), type);
+    }
+    console.warn('Browser could not decode image', error);
+    throw new UnsupportedImageError(
+      format === 'unknown'
+        ? "This file isn't a supported image. Try JPEG, PNG, WebP, HEIC, TIFF or BMP."
+        : `This browser can't open ${FORMAT_LABELS[format]} images. Try converting it to JPEG or PNG first.`
+    );
+  }
+};
@@ -0,0 +1,121 @@
+import { DecodedPixels } from './decodedPixels';
+
+// Image quality metrics used to compare a compressed candidate with its source.
+// Both inputs must have the same dimensions.
+
+const BLOCK = 8;
+// Standard SSIM stabilising constants for 8-bit data: (0.01 * 255)^2 and (0.03 * 255)^2
+const C1 = 6.5025;
+const C2 = 58.5225;
+
+/**
+ * Converts RGBA pixels to Rec. 601 luma. Transparent pixels are treated as composited on white.
+ */
+export const toLuma = (image: DecodedPixels): Float32Array => {
+  const { data } = image;
+  const luma = new Float32Array(image.width * image.height);
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    const a = data[i + 3] / 255;
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    luma[p] = y * a + 255 * (1 - a);
+  }
+  return luma;
+};
+
+/**
+ * Structural similarity (SSIM) of two images, computed on luma over 8×8 windows
+ * with a stride of 4. Returns a value in [-1, 1]; 1 means identical.
+ */
+export const computeSsim = (a: DecodedPixels, b: DecodedPixels): number => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error('SSIM needs images of equal size');
+  }
+
+  const { width, height } = a;
+  const la = toLuma(a);
+  const lb = toLuma(b);
+
+  // Images smaller than one window are compared as a single block
+  const block = Math.min(BLOCK, width, height);
+  const stride = Math.max(1, block >> 1);
+  const n = block * block;
+
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + block <= height; y += stride) {
+    for (let x = 0; x + block <= width; x += stride) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+      for (let j = 0; j < block; j++) {
+        let p = (y + j) * width + x;
+        for (let i = 0; i < block; i++, p++) {
+          const va = la[p];
+          const vb = lb[p];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+
+      total += ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+};
+
+/**
+ * Peak signal-to-noise ratio over the RGB channels, in dB. Identical images return Infinity.
+ */
+export const computePsnr = (a: ImageData, b: ImageData): number => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error('PSNR needs images of equal size');
+  }
+
+  let sum = 0;
+  const { data: da } = a;
+  const { data: db } = b;
+  for (let i = 0; i < da.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = da[i + c] - db[i + c];
+      sum += d * d;
+    }
+  }
+
+  const mse = sum / (a.width * a.height * 3);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+/**
+ * Renders the per-pixel difference of two images as a heatmap: unchanged pixels are
+ * transparent, small differences blue and large ones red. Differences are amplified
+ * so subtle compression artefacts stay visible.
+ */
+export const createDifferenceHeatmap = (a: ImageData, b: ImageData, gain: number = 4): ImageData => {
+  const out = new ImageData(a.width, a.height);
+  const { data: da } = a;
+  const { data: db } = b;
+  const { data } = out;
+
+  for (let i = 0; i < da.length; i += 4) {
+    const diff = (Math.abs(da[i] - db[i]) + Math.abs(da[i + 1] - db[i + 1]) + Math.abs(da[i + 2] - db[i + 2])) / 3;
+    const t = Math.min(1, (diff * gain) / 255);
+    data[i] = Math.round(255 * Math.min(1, t * 2));
+    data[i + 1] = Math.round(255 * Math.max(0, 1 - Math.abs(t - 0.5) * 2) * 0.6);
+    data[i + 2] = Math.round(255 * Math.max(0, 1 - t * 2));
+    data[i + 3] = t === 0 ? 0 : Math.round(80 + 175 * t);
+  }
+
+  return out;
+};
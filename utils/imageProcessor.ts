@@ -1,158 +1,700 @@
-import { fileToImage } from './fileHelpers';
+import { canPadType, padImageToSize } from './padding';
+import { AnyCanvas, createCanvas, fitCanvasLimits, get2dContext, getCanvasLimits } from './canvas';
+import { ImageBackend } from './imageBackend';
+import { DecodedPixels } from './decodedPixels';
+import { createCanvasBackend } from './canvasBackend';
+import { computeDimensionLayout } from './dimensions';
+import { computeSsim } from './imageMetrics';
+import {
+  ExifData,
+  applyOrientationTransform,
+  buildExifSegment,
+  keepsMetadata,
+  orientationSwapsAxes,
+  readExif,
+} from './exif';
+import { insertJpegSegments } from './jpegSegments';
+import { decodeImageFile, decoderAppliesOrientation } from './imageDecoder';
+import { ALPHA_FALLBACK_TYPE, supportsAlpha } from './transparency';
+import { drawResampled } from './resample';
+import { applyEdits } from './edits';
+import { applyDocumentMode } from './document';
+import { applyStamp } from './stamp';
+import { CanvasContextError } from './errors';
+import {
+  CompressionStatus,
+  DocumentOptions,
+  EditOperation,
+  EncodableFormat,
+  FormatCandidate,
+  FormatChoice,
+  MetadataOptions,
+  OutputFormat,
+  ResamplingMethod,
+  StampOptions,
+  TargetDimensions,
+  TargetMissReason,
+  TransparencyOptions,
+  UndersizeStrategy,
+} from '../types';
 
-// We need to define PixelCrop locally since we can't import types from the CDN easily in this utility file
-// without complicating the build.
-interface PixelCrop {
-  x: number;
-  y: number;
+export interface CompressionResult {
+  blob: Blob;
   width: number;
   height: number;
-  unit: 'px';
+  mimeType: string;
+  /** Scale relative to the source (after exact dimensions, if any) that was chosen. */
+  scale: number;
+  /** Encoder quality that was chosen (1 for lossless output). */
+  quality: number;
+  /** SSIM of the result against the source, 1 = identical. */
+  ssim: number;
+  /** Whether the result is within the requested size. */
+  status: CompressionStatus;
+  /** Why the target was missed, when status isn't "met". */
+  reason?: TargetMissReason;
+  /** How an undersized result was grown to reach minSizeKB, if it had to be. */
+  adjustment?: 'padded' | 'upscaled';
+  /** What happened to transparent areas, when the source had any. */
+  transparency?: 'flattened' | 'kept';
+  /** Full size of the input, when it exceeded the canvas limits and was scaled down first. */
+  downscaledFrom?: { width: number; height: number };
+  /** The formats tried and why this one won, when the format was "auto". */
+  formatChoice?: FormatChoice;
 }
 
-interface CompressionResult {
-  blob: Blob;
+export interface CompressionProgress {
+  pass: 'quality' | 'scale';
+  iteration: number;
+  quality: number;
+  scale: number;
+  /** Size of the candidate just encoded, in bytes. */
+  size: number;
+  /** Rough share of the search done (0–1). The search often finishes before reaching 1. */
+  estimate: number;
+}
+
+export interface CompressionOptions {
+  /** Edits (crop, rotate, ...) rendered onto the source before anything else. */
+  edits?: EditOperation[];
+  /** Document clean-up (whitening, threshold, trimming), applied after the edits. */
+  document?: DocumentOptions;
+  /** Text stamp drawn after any exact dimensions, with its tokens already filled in (see utils/stamp). */
+  stamp?: StampOptions;
+  format?: OutputFormat;
+  /** Formats the "auto" format may pick from. Defaults to AUTO_FORMATS. */
+  autoFormats?: EncodableFormat[];
+  /** Lower bound of an accepted size window, in KB. The target size is the upper bound. */
+  minSizeKB?: number;
+  undersizeStrategy?: UndersizeStrategy;
+  /** Exact output dimensions, applied before the size search. The search never changes them. */
+  dimensions?: TargetDimensions;
+  /** EXIF fields to copy into JPEG output. Metadata is stripped when omitted. */
+  metadata?: MetadataOptions;
+  /** Handling of transparent sources. Defaults to flattening onto white. */
+  transparency?: TransparencyOptions;
+  /** How the image is resampled whenever its dimensions change. Defaults to stepwise halving. */
+  resampling?: ResamplingMethod;
+  /**
+   * EXIF of the image when the caller already has it (e.g. the original of a cropped blob);
+   * null means it has none. When undefined it is read from the input file.
+   */
+  exif?: ExifData | null;
+  onProgress?: (progress: CompressionProgress) => void;
+  /** Stops the search; the promise then rejects with the signal's reason (an AbortError). */
+  signal?: AbortSignal;
+}
+
+/**
+ * A decoded image plus the information the search needs about it.
+ * Works for both HTMLImageElement (main thread) and ImageBitmap (worker); other
+ * backends (see utils/imageBackend) hold the image in their own form.
+ */
+export interface CompressionSource<Image = CanvasImageSource> {
+  image: Image;
   width: number;
   height: number;
+  type: string;
 }
 
+const ENCODABLE_TYPES = ['image/jpeg', 'image/webp', 'image/png'];
+
+/** Formats "auto" tries, most widely accepted first. Ties in quality go to the earlier one. */
+export const AUTO_FORMATS: EncodableFormat[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Scales tried by the joint scale/quality search, largest first
+const SEARCH_SCALES = [1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3, 0.2, 0.1];
+// Quality at which a candidate is considered good; smaller scales are not tried after it
+const GOOD_ENOUGH_QUALITY = 0.9;
+// SSIM differences below this count as a tie, and ties go to the larger image
+const SSIM_TIE = 0.002;
+// Candidates are scored at this resolution (long side) to keep SSIM cheap
+const COMPARE_MAX_SIDE = 1024;
+
+// Share of the progress estimate for the main search; growing to a minimum size gets the rest
+const MAIN_SEARCH_SHARE = 0.8;
+
+const DEFAULT_TRANSPARENCY: TransparencyOptions = { mode: 'flatten', background: '#ffffff' };
+
+// Upscaling to reach a minimum size stops at these factors / this many pixels per side
+const UPSCALE_STEPS = [1.25, 1.5, 2, 2.5, 3, 4];
+const MAX_UPSCALE_DIMENSION = 8192;
+
 /**
- * Crops an image based on pixel coordinates.
+ * Whether an error comes from cancelling a compression through its AbortSignal.
  */
-export const getCroppedImg = async (
-  image: HTMLImageElement,
-  crop: PixelCrop,
-  type: string = 'image/jpeg'
-): Promise<Blob> => {
-  const canvas = document.createElement('canvas');
-  const scaleX = image.naturalWidth / image.width;
-  const scaleY = image.naturalHeight / image.height;
-  
-  canvas.width = crop.width * scaleX;
-  canvas.height = crop.height * scaleY;
-  
-  const ctx = canvas.getContext('2d');
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Resolves the requested output format to a concrete MIME type.
+ * "original" keeps the source type when the canvas can encode it, otherwise falls back to JPEG.
+ * "auto" is only settled by the search, so it resolves to JPEG here.
+ */
+export const resolveOutputType = (format: OutputFormat, sourceType: string): string => {
+  if (format === 'auto') return 'image/jpeg';
+  if (format !== 'original') return format;
+  return ENCODABLE_TYPES.includes(sourceType) ? sourceType : 'image/jpeg';
+};
+
+/**
+ * Whether the encoder for this MIME type honours the quality argument of toBlob.
+ */
+export const isLossyType = (type: string): boolean => type !== 'image/png';
+
+/**
+ * Draws the source at the requested output dimensions (fit / fill / pad) and
+ * returns the result as a new source for the size search.
+ */
+const applyTargetDimensions = (
+  source: CompressionSource,
+  target: TargetDimensions,
+  resampling?: ResamplingMethod
+): CompressionSource => {
+  const layout = computeDimensionLayout(source.width, source.height, target);
+  if (fitCanvasLimits(layout.canvasWidth, layout.canvasHeight).scaled) {
+    const { maxSide } = getCanvasLimits();
+    throw new CanvasContextError(
+      `${layout.canvasWidth} × ${layout.canvasHeight} px is larger than this browser can create (max ${maxSide} px per side). Choose smaller dimensions.`
+    );
+  }
+  const canvas = createCanvas(layout.canvasWidth, layout.canvasHeight);
+  const ctx = get2dContext(canvas);
+
   if (!ctx) {
-    throw new Error('No 2d context');
-  }
-
-  ctx.drawImage(
-    image,
-    crop.x * scaleX,
-    crop.y * scaleY,
-    crop.width * scaleX,
-    crop.height * scaleY,
-    0,
-    0,
-    canvas.width,
-    canvas.height
-  );
-
-  return new Promise((resolve, reject) => {
-    canvas.toBlob((blob) => {
-      if (!blob) {
-        reject(new Error('Canvas is empty'));
-        return;
-      }
-      resolve(blob);
-    }, type, 1.0);
-  });
+    throw new CanvasContextError();
+  }
+
+  if (layout.padded) {
+    ctx.fillStyle = target.background;
+    ctx.fillRect(0, 0, layout.canvasWidth, layout.canvasHeight);
+  }
+  drawResampled(ctx, source, layout.dx, layout.dy, layout.dw, layout.dh, resampling);
+
+  return {
+    image: canvas,
+    width: layout.canvasWidth,
+    height: layout.canvasHeight,
+    type: source.type,
+  };
 };
 
 /**
- * Compresses an image to try and meet a target file size (in KB).
- * Uses a binary search approach on quality, and falls back to dimension scaling if needed.
+ * Returns a function that scores an encoded candidate against the source with SSIM,
+ * both rendered at a common comparison resolution.
  */
-export const compressImageToTarget = async (
-  file: File | Blob,
-  targetSizeKB: number
-): Promise<CompressionResult> => {
-  const targetSizeBytes = targetSizeKB * 1024;
-  const originalImage = await fileToImage(file);
-  
-  let canvas = document.createElement('canvas');
-  let ctx = canvas.getContext('2d');
+const createSsimScorer = <Image, Frame>(source: CompressionSource<Image>, backend: ImageBackend<Image, Frame>) => {
+  const ratio = Math.min(1, COMPARE_MAX_SIDE / Math.max(source.width, source.height));
+  const cw = Math.max(1, Math.round(source.width * ratio));
+  const ch = Math.max(1, Math.round(source.height * ratio));
+  let reference: DecodedPixels | null = null;
+
+  return async (blob: Blob): Promise<number> => {
+    reference ??= backend.readPixels(source, cw, ch);
+    const decoded = await backend.decode(blob);
+    try {
+      return computeSsim(reference, backend.readPixels(decoded, cw, ch));
+    } finally {
+      decoded.release();
+    }
+  };
+};
+
+/**
+ * Redraws a source with its EXIF orientation applied, so its pixels are upright.
+ */
+const orientSource = (source: CompressionSource, orientation: number): CompressionSource => {
+  const swap = orientationSwapsAxes(orientation);
+  const width = swap ? source.height : source.width;
+  const height = swap ? source.width : source.height;
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
 
   if (!ctx) {
-    throw new Error('Could not get canvas context');
+    throw new CanvasContextError();
+  }
+
+  applyOrientationTransform(ctx, orientation, source.width, source.height);
+  ctx.drawImage(source.image, 0, 0, source.width, source.height);
+
+  return { image: canvas, width, height, type: source.type };
+};
+
+/**
+ * Decodes a file (see decodeImageFile) into an upright source for compressSourceToTarget, applying the EXIF
+ * orientation explicitly when the browser doesn't. Pass `exif` if it is already known,
+ * otherwise it is read from the file. Sources over the canvas limits come back scaled
+ * down, with their full size in `downscaledFrom`. Call release() once the source is no longer needed.
+ */
+export const decodeForCompression = async (
+  file: Blob,
+  exif?: ExifData | null
+): Promise<{
+  source: CompressionSource;
+  exif: ExifData | null;
+  downscaledFrom?: { width: number; height: number };
+  release: () => void;
+}> => {
+  const metadata = exif !== undefined ? exif : await readExif(file);
+  const { image, width, height, type, decoder, downscaledFrom, release } = await decodeImageFile(file, metadata?.orientation);
+  let source: CompressionSource = { image, width, height, type };
+
+  // Our own decoders never apply orientation; the browser's may already have
+  const orientation = metadata?.orientation ?? 1;
+  if (orientation !== 1 && (decoder === 'pixels' || !(await decoderAppliesOrientation(decoder)))) {
+    source = orientSource(source, orientation);
+  }
+
+  return { source, exif: metadata, downscaledFrom, release };
+};
+
+/**
+ * The size search proper, on a source that has already been edited, resized and stamped.
+ * See compressSourceToTarget.
+ */
+const searchSource = async <Image, Frame>(
+  prepared: CompressionSource<Image>,
+  backend: ImageBackend<Image, Frame>,
+  targetSizeKB: number,
+  format: Exclude<OutputFormat, 'auto'>,
+  options: CompressionOptions
+): Promise<CompressionResult> => {
+  const lockDimensions = !!options.dimensions;
+  const { resampling } = options;
+  let source = prepared;
+  let targetSizeBytes = targetSizeKB * 1024;
+  let minSizeBytes = options.minSizeKB ? Math.min(options.minSizeKB * 1024, targetSizeBytes) : 0;
+  const { onProgress, signal } = options;
+  signal?.throwIfAborted();
+  let mimeType = resolveOutputType(format, source.type);
+
+  const transparency = options.transparency || DEFAULT_TRANSPARENCY;
+  const transparent = supportsAlpha(source.type) && backend.hasTransparency(source);
+  const keepAlpha = transparent && transparency.mode === 'keep';
+  if (keepAlpha && !supportsAlpha(mimeType)) {
+    mimeType = ALPHA_FALLBACK_TYPE;
+  }
+  if (transparent && !keepAlpha) {
+    source = { ...source, image: backend.flatten(source, transparency.background) };
   }
 
-  let width = originalImage.width;
-  let height = originalImage.height;
+  let width = source.width;
+  let height = source.height;
 
   // Start with original dimensions
-  canvas.width = width;
-  canvas.height = height;
-  ctx.drawImage(originalImage, 0, 0, width, height);
-
-  // Helper to get blob at specific quality
-  const getBlob = (q: number): Promise<Blob> => {
-    return new Promise((resolve) => {
-      // We force JPEG for better compression control
-      canvas.toBlob(
-        (blob) => resolve(blob!),
-        'image/jpeg',
-        q
-      );
-    });
+  let frame = backend.render(source, width, height, resampling);
+
+  // Helper to get blob at specific quality. Every encode is a cancellation point.
+  const getBlob = async (q: number): Promise<Blob> => {
+    signal?.throwIfAborted();
+    const blob = await backend.encode(frame, mimeType, q);
+    signal?.throwIfAborted();
+    return blob;
+  };
+
+  // Each phase of the search claims a slice of the progress estimate
+  let progressSlice = { start: 0, size: MAIN_SEARCH_SHARE };
+  const report = (progress: Omit<CompressionProgress, 'estimate'>, done: number) => {
+    onProgress?.({ ...progress, estimate: Math.min(1, progressSlice.start + progressSlice.size * done) });
+  };
+
+  // Browsers without a WebP encoder silently return PNG; use JPEG instead so the quality search still works
+  let probe = await getBlob(1.0);
+  if (probe.type !== mimeType) {
+    // PNG is the only other format that keeps transparency
+    mimeType = keepAlpha ? 'image/png' : 'image/jpeg';
+    if (keepAlpha) probe = await getBlob(1.0);
+  }
+
+  // Kept metadata is added after the search, so reserve room for it up front
+  const metadataSegment = mimeType === 'image/jpeg' && options.exif && options.metadata && keepsMetadata(options.metadata)
+    ? buildExifSegment(options.exif, options.metadata)
+    : null;
+  if (metadataSegment) {
+    targetSizeBytes -= metadataSegment.length;
+    minSizeBytes = Math.max(0, minSizeBytes - metadataSegment.length);
+  }
+
+  const redraw = (scale: number) => {
+    width = Math.max(1, Math.floor(source.width * scale));
+    height = Math.max(1, Math.floor(source.height * scale));
+    frame = backend.render(source, width, height, resampling);
+  };
+
+  const score = createSsimScorer(source, backend);
+  let currentScale = 1;
+
+  const redrawAt = (scale: number) => {
+    currentScale = scale;
+    redraw(scale);
+  };
+
+  const candidate = (blob: Blob, quality: number): Omit<CompressionResult, 'ssim' | 'status'> => ({
+    blob,
+    width,
+    height,
+    mimeType,
+    scale: currentScale,
+    quality,
+  });
+
+  // Bisection for the highest quality (floor to 1.0) that fits at the current dimensions
+  const searchQuality = async (floor: number = 0.01): Promise<{ blob: Blob; quality: number } | null> => {
+    let lo = floor;
+    let hi = 1.0;
+    let best: { blob: Blob; quality: number } | null = null;
+
+    for (let iteration = 0; iteration < 8; iteration++) {
+      const midQ = (lo + hi) / 2;
+      const blob = await getBlob(midQ);
+      report({ pass: 'quality', iteration, quality: midQ, scale: currentScale, size: blob.size }, (iteration + 1) / 8);
+
+      if (blob.size <= targetSizeBytes) {
+        best = { blob, quality: midQ };
+        lo = midQ; // Try to get better quality if possible
+      } else {
+        hi = midQ; // Reduce quality
+      }
+    }
+
+    return best;
+  };
+
+  const fitUnderMaximum = async (): Promise<Omit<CompressionResult, 'ssim' | 'status'> & { ssim?: number }> => {
+    if (!isLossyType(mimeType)) {
+      const full = probe;
+      if (full.size <= targetSizeBytes || lockDimensions) {
+        return candidate(full, 1);
+      }
+
+      // Lossless output: binary search the largest scale that fits.
+      // File size grows roughly with pixel area, so start near sqrt(target / size).
+      let minS = 0.01;
+      let maxS = Math.min(1, Math.sqrt(targetSizeBytes / full.size) * 1.5);
+      let best: Omit<CompressionResult, 'ssim' | 'status'> | null = null;
+      let iterations = 0;
+
+      while (maxS - minS > 0.005 && iterations < 12) {
+        const midS = (minS + maxS) / 2;
+        redrawAt(midS);
+        const blob = await getBlob(1.0);
+        report({ pass: 'scale', iteration: iterations, quality: 1.0, scale: midS, size: blob.size }, (iterations + 1) / 12);
+
+        if (blob.size <= targetSizeBytes) {
+          best = candidate(blob, 1);
+          minS = midS;
+        } else {
+          maxS = midS;
+        }
+        iterations++;
+      }
+
+      if (best) return best;
+
+      // Nothing fit: return the smallest version we can make
+      redrawAt(minS);
+      return candidate(await getBlob(1.0), 1);
+    }
+
+    // Fixed dimensions: only quality can change
+    if (lockDimensions) {
+      const found = await searchQuality();
+      // The lowest quality is as small as it gets
+      return found ? candidate(found.blob, found.quality) : candidate(await getBlob(0.01), 0.01);
+    }
+
+    // Joint search: at each scale find the best quality that fits and score it with SSIM.
+    // A slightly smaller but sharper image often beats a full-size, heavily compressed one.
+    let best: Omit<CompressionResult, 'status'> | null = null;
+    let worseInARow = 0;
+
+    for (const [iteration, scale] of SEARCH_SCALES.entries()) {
+      redrawAt(scale);
+      const share = MAIN_SEARCH_SHARE / SEARCH_SCALES.length;
+      progressSlice = { start: iteration * share, size: share };
+
+      // Quick reject: if even a low quality is too big, this scale can't work
+      const floorQ = 0.05;
+      const floor = await getBlob(floorQ);
+      report({ pass: 'scale', iteration, quality: floorQ, scale, size: floor.size }, 0);
+      if (floor.size > targetSizeBytes) continue;
+
+      const found = (await searchQuality(floorQ)) || { blob: floor, quality: floorQ };
+      const ssim = await score(found.blob);
+
+      if (!best || ssim > best.ssim + SSIM_TIE) {
+        best = { ...candidate(found.blob, found.quality), ssim };
+        worseInARow = 0;
+      } else if (++worseInARow >= 2) {
+        break; // Scores keep dropping as the image gets smaller
+      }
+
+      // Going smaller from a high-quality fit only loses detail
+      if (found.quality >= GOOD_ENOUGH_QUALITY) break;
+    }
+
+    if (best) return best;
+
+    // If we still fail, return the smallest possible version we generated (last attempt)
+    return candidate(await getBlob(0.01), 0.01);
   };
 
-  // Binary search for quality (0.01 to 1.0)
-  let minQ = 0.01;
-  let maxQ = 1.0;
-  let bestBlob: Blob | null = null;
-  let iterations = 0;
+  const withScore = async <T extends Omit<CompressionResult, 'ssim' | 'status'> & { ssim?: number }>(
+    result: T
+  ): Promise<Omit<CompressionResult, 'status'>> => ({
+    ...result,
+    ssim: result.ssim ?? await score(result.blob),
+  });
+
+  const result = await fitUnderMaximum();
+
+  // Judges the final file (metadata included) against the bounds as requested
+  const finish = async (final: Omit<CompressionResult, 'status'>): Promise<CompressionResult> => {
+    const blob = metadataSegment ? await insertJpegSegments(final.blob, [metadataSegment]) : final.blob;
+    const maxBytes = targetSizeKB * 1024;
+    const minBytes = options.minSizeKB ? Math.min(options.minSizeKB * 1024, maxBytes) : 0;
+
+    let reason: TargetMissReason | undefined;
+    if (blob.size > maxBytes) {
+      reason = lockDimensions ? 'dimensions-locked' : isLossyType(mimeType) ? 'minimum-quality' : 'lossless';
+    } else if (blob.size < minBytes) {
+      reason = 'below-minimum';
+    }
+
+    return {
+      ...final,
+      blob,
+      transparency: transparent ? (keepAlpha ? 'kept' : 'flattened') : undefined,
+      status: !reason ? 'met' : reason === 'below-minimum' ? 'best-effort' : 'failed',
+      reason,
+    };
+  };
+
+  if (result.blob.size >= minSizeBytes || result.blob.size > targetSizeBytes) {
+    return finish(await withScore(result));
+  }
+
+  // Undersized: even the best quality is below the minimum
+  let best = result;
+  const strategy = options.undersizeStrategy || 'pad';
+
+  if (!lockDimensions && (strategy === 'upscale' || !canPadType(mimeType))) {
+    for (const [step, scale] of UPSCALE_STEPS.entries()) {
+      if (Math.max(source.width, source.height) * scale > MAX_UPSCALE_DIMENSION) break;
+      if (!backend.fits(source.width * scale, source.height * scale)) break;
+
+      redrawAt(scale);
+      const share = (1 - MAIN_SEARCH_SHARE) / UPSCALE_STEPS.length;
+      progressSlice = { start: MAIN_SEARCH_SHARE + step * share, size: share };
+      let found: { blob: Blob; quality: number } | null;
+      if (isLossyType(mimeType)) {
+        found = await searchQuality();
+      } else {
+        const blob = await getBlob(1.0);
+        report({ pass: 'scale', iteration: step, quality: 1.0, scale, size: blob.size }, 1);
+        found = blob.size <= targetSizeBytes ? { blob, quality: 1 } : null;
+      }
+
+      // Larger scales only get bigger, so stop once nothing fits under the maximum
+      if (!found) break;
+
+      if (found.blob.size > best.blob.size) {
+        best = { ...candidate(found.blob, found.quality), ssim: undefined, adjustment: 'upscaled' };
+      }
+      if (best.blob.size >= minSizeBytes) return finish(await withScore(best));
+    }
+  }
+
+  if (canPadType(mimeType)) {
+    // Score before padding; the filler bytes don't change the pixels
+    const scored = await withScore(best);
+    return finish({ ...scored, blob: await padImageToSize(best.blob, minSizeBytes), adjustment: 'padded' });
+  }
+
+  return finish(await withScore(best));
+};
+
+const statusRank: Record<CompressionStatus, number> = { met: 0, 'best-effort': 1, failed: 2 };
 
-  // First pass: Try to find best quality at full resolution
-  while (minQ <= maxQ && iterations < 10) {
-    const midQ = (minQ + maxQ) / 2;
-    const blob = await getBlob(midQ);
+/**
+ * Picks the winner among the formats "auto" tried (in AUTO_FORMATS order).
+ * Formats that reached the target beat the rest; among those the highest SSIM wins, with
+ * near-ties going to the more widely accepted format. When none reached it, the smallest wins.
+ */
+const chooseFormat = (results: CompressionResult[]): { winner: CompressionResult; reason: FormatChoice['reason'] } => {
+  if (results.length === 1) return { winner: results[0], reason: 'only-allowed' };
+
+  const bestRank = Math.min(...results.map(result => statusRank[result.status]));
+  if (bestRank === statusRank.failed) {
+    const winner = results.reduce((smallest, result) => result.blob.size < smallest.blob.size ? result : smallest);
+    return { winner, reason: 'closest' };
+  }
+
+  const contenders = results.filter(result => statusRank[result.status] === bestRank);
+  const topSsim = Math.max(...contenders.map(result => result.ssim));
+  const winner = contenders.find(result => result.ssim >= topSsim - SSIM_TIE)!;
+  const reason = contenders.length === 1 ? 'only-fit' : winner.ssim < topSsim ? 'compatible' : 'most-detail';
+  return { winner, reason };
+};
 
-    if (blob.size <= targetSizeBytes) {
-      bestBlob = blob;
-      minQ = midQ + 0.05; // Try to get better quality if possible
+/**
+ * Runs the size search once per allowed format and keeps the one that looks best at the target.
+ * Only allowed formats are ever returned. To keep transparency only the allowed formats that can
+ * hold it are searched; when none can, the image is flattened. A format the backend can't encode
+ * comes back as another type (WebP as PNG), which is dropped if that type isn't allowed or was
+ * already searched, unless nothing else is left.
+ */
+const searchBestFormat = async <Image, Frame>(
+  source: CompressionSource<Image>,
+  backend: ImageBackend<Image, Frame>,
+  targetSizeKB: number,
+  options: CompressionOptions
+): Promise<CompressionResult> => {
+  const allowed = options.autoFormats?.length ? options.autoFormats : AUTO_FORMATS;
+  let formats = AUTO_FORMATS.filter(format => allowed.includes(format));
+  let searchOptions = options;
+
+  const transparency = options.transparency || DEFAULT_TRANSPARENCY;
+  if (transparency.mode === 'keep' && supportsAlpha(source.type) && backend.hasTransparency(source)) {
+    const alphaFormats = formats.filter(format => supportsAlpha(format));
+    if (alphaFormats.length) {
+      formats = alphaFormats;
     } else {
-      maxQ = midQ - 0.05; // Reduce quality
+      searchOptions = { ...options, transparency: { ...transparency, mode: 'flatten' } };
     }
-    iterations++;
-  }
-
-  // If we found a blob that fits, return it
-  if (bestBlob) {
-    return { blob: bestBlob, width, height };
-  }
-
-  // Second pass: If quality 0.01 is still too big, we MUST resize dimensions
-  // Reset variables
-  let scale = 0.9;
-  iterations = 0;
-  
-  while (iterations < 15) {
-    width = Math.floor(originalImage.width * scale);
-    height = Math.floor(originalImage.height * scale);
-    
-    canvas.width = width;
-    canvas.height = height;
-    // Clear and redraw
-    ctx.clearRect(0, 0, width, height);
-    ctx.drawImage(originalImage, 0, 0, width, height);
-
-    // Try lowest acceptable quality with reduced dimensions
-    const blob = await getBlob(0.5); 
-
-    if (blob.size <= targetSizeBytes) {
-       // Found a fit!
-       return { blob, width, height };
+  }
+
+  const results: CompressionResult[] = [];
+  let fallback: CompressionResult | undefined;
+  for (const [index, format] of formats.entries()) {
+    if (results.some(tried => tried.mimeType === format)) continue;
+    const result = await searchSource(source, backend, targetSizeKB, format, {
+      ...searchOptions,
+      onProgress: options.onProgress && (progress => options.onProgress!({
+        ...progress,
+        estimate: (index + progress.estimate) / formats.length,
+      })),
+    });
+    if (!allowed.includes(result.mimeType as EncodableFormat) || results.some(tried => tried.mimeType === result.mimeType)) {
+      fallback ??= result;
+    } else {
+      results.push(result);
     }
-    
-    // Reduce scale further
-    scale -= 0.1;
-    
-    if (scale < 0.1) break; // Safety break
-    iterations++;
-  }
-
-  // If we still fail, return the smallest possible version we generated (last attempt)
-  const finalBlob = await getBlob(0.1);
-  return { blob: finalBlob, width, height };
-};
\ No newline at end of file
+  }
+  if (!results.length) results.push(fallback!);
+
+  const { winner, reason } = chooseFormat(results);
+  const candidates: FormatCandidate[] = results.map(({ mimeType, blob, ssim, status }) => ({
+    mimeType,
+    size: blob.size,
+    ssim,
+    status,
+  }));
+  return { ...winner, formatChoice: { reason, candidates } };
+};
+
+/** Options for searchWithBackend; the steps before the search need a canvas. */
+export type BackendSearchOptions = Omit<CompressionOptions, 'edits' | 'document' | 'stamp'>;
+
+/**
+ * The size search of compressSourceToTarget, on any backend (see utils/imageBackend).
+ * The source must already be upright; `options.dimensions`, if given, means it already
+ * has them, so only the quality is searched.
+ */
+export const searchWithBackend = <Image, Frame>(
+  source: CompressionSource<Image>,
+  backend: ImageBackend<Image, Frame>,
+  targetSizeKB: number,
+  options: BackendSearchOptions = {}
+): Promise<CompressionResult> => {
+  options.signal?.throwIfAborted();
+  const format = options.format || 'image/jpeg';
+  return format === 'auto'
+    ? searchBestFormat(source, backend, targetSizeKB, options)
+    : searchSource(source, backend, targetSizeKB, format, options);
+};
+
+/**
+ * Runs the size search on an already decoded source using the given canvas.
+ * Shared by the main-thread path and the compression worker; searchWithBackend runs
+ * the same search elsewhere.
+ * The edit list in `options.edits` is rendered onto the source first.
+ * Uses a binary search approach on quality, and falls back to dimension scaling if needed.
+ * Lossless formats (PNG) skip the quality search and only scale dimensions.
+ * When a minimum size is given and even the best result is smaller, it is grown by
+ * upscaling and/or padding (see UndersizeStrategy).
+ * With exact dimensions the image is resized once up front and only quality is searched.
+ * Transparent sources are flattened onto a background colour, or keep their alpha channel
+ * with JPEG output switched to WebP (PNG where WebP can't be encoded).
+ * EXIF fields selected in `options.metadata` are written into JPEG output; their bytes
+ * count towards the target size.
+ * Every resize goes through `options.resampling` (see utils/resample).
+ * The "auto" format searches each of `options.autoFormats` and returns the best-looking
+ * result, with the comparison in `formatChoice`.
+ * Progress is reported through `options.onProgress`; `options.signal` cancels the search.
+ * A target that can't be met still yields the closest result, with `status` and `reason`
+ * saying how it was missed.
+ */
+export const compressSourceToTarget = async (
+  input: CompressionSource,
+  canvas: AnyCanvas,
+  targetSizeKB: number,
+  options: CompressionOptions = {}
+): Promise<CompressionResult> => {
+  const { resampling } = options;
+  let source: CompressionSource = options.edits?.length
+    ? { ...applyEdits(input, options.edits, resampling), type: input.type }
+    : input;
+  if (options.document?.enabled) {
+    source = { ...applyDocumentMode(source, options.document), type: source.type };
+  }
+  if (options.dimensions) {
+    source = applyTargetDimensions(source, options.dimensions, resampling);
+  }
+  if (options.stamp?.enabled) {
+    source = { ...applyStamp(source, options.stamp), type: source.type };
+  }
+
+  return searchWithBackend(source, createCanvasBackend(canvas), targetSizeKB, options);
+};
+
+/**
+ * Compresses an image to try and meet a target file size (in KB) on the main thread.
+ * This is the fallback used when the compression worker or OffscreenCanvas is unavailable.
+ */
+export const compressImageToTarget = async (
+  file: File | Blob,
+  targetSizeKB: number,
+  options: CompressionOptions = {}
+): Promise<CompressionResult> => {
+  const { source, exif, downscaledFrom, release } = await decodeForCompression(file, options.exif);
+  const canvas = document.createElement('canvas');
+
+  try {
+    options.signal?.throwIfAborted();
+    const result = await compressSourceToTarget(source, canvas, targetSizeKB, { ...options, exif });
+    return { ...result, downscaledFrom };
+  } finally {
+    release();
+  }
+};
@@ -0,0 +1,521 @@
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+
+// Pure TypeScript JPEG decoder, so the size search can run where there is no canvas (Node).
+// Handles baseline and progressive Huffman-coded JPEGs with 8-bit greyscale or YCbCr/RGB
+// samples, any chroma subsampling and restart intervals. Arithmetic coding, 12-bit and
+// CMYK files are not supported.
+
+/** Position in the natural (row-major) 8×8 block of each coefficient in zigzag order. */
+export const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+/** cos((2x + 1)uπ / 16) scaled by C(u) / 2, indexed [x * 8 + u]. Shared with the encoder. */
+export const DCT_COSINES = (() => {
+  const table = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      table[x * 8 + u] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+interface HuffmanTable {
+  /** Indexed by the next 16 bits: (code length << 8) | symbol, 0 where no code matches. */
+  lookup: Uint16Array;
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per line / column including the padding up to whole MCUs. */
+  paddedBlocksPerLine: number;
+  paddedBlocksPerColumn: number;
+  /** Quantized coefficients, 64 per block in natural order. */
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  predictor: number;
+}
+
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+}
+
+const damaged = () => new UnsupportedImageError('This JPEG file is damaged');
+
+const buildHuffmanTable = (counts: Uint8Array, symbols: Uint8Array): HuffmanTable => {
+  const lookup = new Uint16Array(65536);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      const first = code << (16 - length);
+      const entry = (length << 8) | symbols[index++];
+      lookup.fill(entry, first, first + (1 << (16 - length)));
+      code++;
+    }
+    code <<= 1;
+  }
+  return { lookup };
+};
+
+/**
+ * Reads entropy-coded bits, skipping stuffed zero bytes. At a marker it feeds zeros,
+ * as a truncated scan should still decode as far as it goes.
+ */
+class BitReader {
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private data: Uint8Array, public position: number) {}
+
+  private fill() {
+    while (this.count <= 24) {
+      let byte = 0;
+      if (this.position < this.data.length) {
+        byte = this.data[this.position];
+        if (byte === 0xff) {
+          const next = this.data[this.position + 1];
+          if (next === 0) {
+            this.position += 2;
+          } else {
+            byte = 0; // A marker: don't consume it
+          }
+        } else {
+          this.position++;
+        }
+      }
+      this.buffer = ((this.buffer << 8) | byte) >>> 0;
+      this.count += 8;
+    }
+  }
+
+  bits(n: number): number {
+    if (n === 0) return 0;
+    this.fill();
+    this.count -= n;
+    return (this.buffer >>> this.count) & ((1 << n) - 1);
+  }
+
+  bit(): number {
+    return this.bits(1);
+  }
+
+  /** A value of `n` bits in JPEG's sign-magnitude encoding. */
+  signed(n: number): number {
+    const value = this.bits(n);
+    return value < 1 << (n - 1) ? value - (1 << n) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    this.fill();
+    const entry = table.lookup[(this.buffer >>> (this.count - 16)) & 0xffff];
+    if (!entry) throw damaged();
+    this.count -= entry >> 8;
+    return entry & 0xff;
+  }
+
+  /** Drops buffered bits and moves past the next marker (a restart marker). */
+  restart() {
+    this.count = 0;
+    while (this.position + 1 < this.data.length && !(this.data[this.position] === 0xff && this.data[this.position + 1] >= 0xd0 && this.data[this.position + 1] <= 0xd7)) {
+      this.position++;
+    }
+    this.position += 2;
+  }
+}
+
+interface Scan {
+  components: Component[];
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+}
+
+/**
+ * Decodes one scan into the components' coefficients and returns where it ended.
+ */
+const decodeScan = (data: Uint8Array, offset: number, frame: Frame, scan: Scan, restartInterval: number): number => {
+  const { spectralStart: start, spectralEnd: end, approximationHigh: high, approximationLow: low } = scan;
+  const reader = new BitReader(data, offset);
+  let eobRun = 0;
+
+  const decodeBaseline = (component: Component, block: number) => {
+    const coefficients = component.coefficients;
+    const t = reader.decode(component.dcTable!);
+    component.predictor += t ? reader.signed(t) : 0;
+    coefficients[block] = component.predictor;
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(component.acTable!);
+      const size = rs & 15;
+      const run = rs >> 4;
+      if (!size) {
+        if (run < 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]] = reader.signed(size);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (component: Component, block: number) => {
+    const t = reader.decode(component.dcTable!);
+    component.predictor += t ? reader.signed(t) : 0;
+    component.coefficients[block] = component.predictor * (1 << low);
+  };
+
+  const decodeDcRefine = (component: Component, block: number) => {
+    if (reader.bit()) component.coefficients[block] |= 1 << low;
+  };
+
+  const decodeAcFirst = (component: Component, block: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    const coefficients = component.coefficients;
+    for (let k = start; k <= end;) {
+      const rs = reader.decode(component.acTable!);
+      const size = rs & 15;
+      const run = rs >> 4;
+      if (!size) {
+        if (run < 15) {
+          eobRun = (1 << run) - 1 + reader.bits(run);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]] = reader.signed(size) * (1 << low);
+      k++;
+    }
+  };
+
+  // Follows libjpeg's decode_mcu_AC_refine
+  const decodeAcRefine = (component: Component, block: number) => {
+    const coefficients = component.coefficients;
+    const positive = 1 << low;
+    const negative = -1 << low;
+    const refine = (index: number) => {
+      if (reader.bit() && (coefficients[index] & positive) === 0) {
+        coefficients[index] += coefficients[index] >= 0 ? positive : negative;
+      }
+    };
+
+    let k = start;
+    if (eobRun === 0) {
+      for (; k <= end; k++) {
+        const rs = reader.decode(component.acTable!);
+        let run = rs >> 4;
+        let value = 0;
+        if (rs & 15) {
+          value = reader.bit() ? positive : negative;
+        } else if (run !== 15) {
+          eobRun = (1 << run) + reader.bits(run);
+          break;
+        }
+        for (; k <= end; k++) {
+          const index = block + ZIGZAG[k];
+          if (coefficients[index] !== 0) {
+            refine(index);
+          } else if (--run < 0) {
+            break;
+          }
+        }
+        if (value && k <= end) coefficients[block + ZIGZAG[k]] = value;
+      }
+    }
+    if (eobRun > 0) {
+      for (; k <= end; k++) {
+        const index = block + ZIGZAG[k];
+        if (coefficients[index] !== 0) refine(index);
+      }
+      eobRun--;
+    }
+  };
+
+  const decodeBlock = !frame.progressive
+    ? decodeBaseline
+    : start === 0
+      ? (high === 0 ? decodeDcFirst : decodeDcRefine)
+      : (high === 0 ? decodeAcFirst : decodeAcRefine);
+
+  const blockOffset = (component: Component, row: number, column: number) =>
+    (row * component.paddedBlocksPerLine + column) * 64;
+
+  const single = scan.components.length === 1 ? scan.components[0] : null;
+  const total = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  for (let mcu = 0; mcu < total; mcu++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      eobRun = 0;
+      scan.components.forEach(component => { component.predictor = 0; });
+    }
+
+    if (single) {
+      // Non-interleaved scans cover only the component's own blocks, without MCU padding
+      const row = Math.floor(mcu / single.blocksPerLine);
+      decodeBlock(single, blockOffset(single, row, mcu % single.blocksPerLine));
+      continue;
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+    const mcuColumn = mcu % frame.mcusPerLine;
+    for (const component of scan.components) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          decodeBlock(component, blockOffset(component, mcuRow * component.v + v, mcuColumn * component.h + h));
+        }
+      }
+    }
+  }
+
+  return reader.position;
+};
+
+/**
+ * Dequantizes and inverse-transforms a component into 8-bit samples,
+ * `paddedBlocksPerLine * 8` samples per row.
+ */
+const renderComponent = (component: Component, quant: Uint16Array): Uint8ClampedArray => {
+  const stride = component.paddedBlocksPerLine * 8;
+  const output = new Uint8ClampedArray(stride * component.paddedBlocksPerColumn * 8);
+  const block = new Float32Array(64);
+  const temp = new Float32Array(64);
+
+  for (let row = 0; row < component.paddedBlocksPerColumn; row++) {
+    for (let column = 0; column < component.paddedBlocksPerLine; column++) {
+      const offset = (row * component.paddedBlocksPerLine + column) * 64;
+      for (let i = 0; i < 64; i++) block[i] = component.coefficients[offset + i] * quant[i];
+
+      // Rows, then columns: f(x) = Σ C(u)/2 · F(u) · cos((2x + 1)uπ / 16)
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) sum += DCT_COSINES[x * 8 + u] * block[y * 8 + u];
+          temp[y * 8 + x] = sum;
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += DCT_COSINES[y * 8 + v] * temp[v * 8 + x];
+          output[(row * 8 + y) * stride + column * 8 + x] = Math.round(sum + 128);
+        }
+      }
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Decodes a JPEG file to RGBA pixels. EXIF orientation is not applied.
+ */
+export const decodeJpeg = (data: Uint8Array): DecodedPixels => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) throw damaged();
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let offset = 2;
+
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    offset += 2;
+    if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+      if (marker === 0xff) offset--;
+      continue;
+    }
+    if (marker === 0xd9) break; // EOI
+
+    const length = (data[offset] << 8) | data[offset + 1];
+    const segment = data.subarray(offset + 2, offset + length);
+    if (offset + length > data.length) throw damaged();
+
+    switch (marker) {
+      case 0xdb: { // DQT
+        for (let at = 0; at < segment.length;) {
+          const precision = segment[at] >> 4;
+          const id = segment[at] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? (segment[at + 1 + k * 2] << 8) | segment[at + 2 + k * 2] : segment[at + 1 + k];
+          }
+          quantTables[id] = table;
+          at += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+      }
+      case 0xc4: { // DHT
+        for (let at = 0; at < segment.length;) {
+          const tableClass = segment[at] >> 4;
+          const id = segment[at] & 15;
+          const counts = segment.subarray(at + 1, at + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, segment.subarray(at + 17, at + 17 + total));
+          (tableClass ? acTables : dcTables)[id] = table;
+          at += 17 + total;
+        }
+        break;
+      }
+      case 0xdd: // DRI
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+      case 0xee: // APP14 "Adobe": says whether 3-component data is YCbCr or RGB
+        if (String.fromCharCode(...segment.subarray(0, 5)) === 'Adobe') adobeTransform = segment[11];
+        break;
+      case 0xc0:
+      case 0xc1:
+      case 0xc2: {
+        if (segment[0] !== 8) throw new UnsupportedImageError('12-bit JPEG files are not supported');
+        const height = (segment[1] << 8) | segment[2];
+        const width = (segment[3] << 8) | segment[4];
+        const count = segment[5];
+        if (!width || !height) throw damaged();
+        if (count !== 1 && count !== 3) throw new UnsupportedImageError('CMYK JPEG files are not supported');
+
+        const specs = Array.from({ length: count }, (_, i) => segment.subarray(6 + i * 3, 9 + i * 3));
+        const maxH = Math.max(...specs.map(spec => spec[1] >> 4));
+        const maxV = Math.max(...specs.map(spec => spec[1] & 15));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        const components = specs.map((spec): Component => {
+          const h = spec[1] >> 4;
+          const v = spec[1] & 15;
+          const paddedBlocksPerLine = mcusPerLine * h;
+          const paddedBlocksPerColumn = mcusPerColumn * v;
+          return {
+            id: spec[0],
+            h,
+            v,
+            quantTable: spec[2],
+            blocksPerLine: Math.ceil(Math.ceil((width * h) / maxH) / 8),
+            blocksPerColumn: Math.ceil(Math.ceil((height * v) / maxV) / 8),
+            paddedBlocksPerLine,
+            paddedBlocksPerColumn,
+            coefficients: new Int16Array(paddedBlocksPerLine * paddedBlocksPerColumn * 64),
+            predictor: 0,
+          };
+        });
+        frame = { progressive: marker === 0xc2, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+        break;
+      }
+      case 0xda: { // SOS
+        if (!frame) throw damaged();
+        const count = segment[0];
+        const components = Array.from({ length: count }, (_, i) => {
+          const component = frame!.components.find(item => item.id === segment[1 + i * 2]);
+          if (!component) throw damaged();
+          const tables = segment[2 + i * 2];
+          component.dcTable = dcTables[tables >> 4];
+          component.acTable = acTables[tables & 15];
+          component.predictor = 0;
+          return component;
+        });
+        const params = segment.subarray(1 + count * 2);
+        offset = decodeScan(data, offset + length, frame, {
+          components,
+          spectralStart: params[0],
+          spectralEnd: params[1],
+          approximationHigh: params[2] >> 4,
+          approximationLow: params[2] & 15,
+        }, restartInterval);
+        continue;
+      }
+      default:
+        if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          throw new UnsupportedImageError('This kind of JPEG (lossless or arithmetic-coded) is not supported');
+        }
+    }
+    offset += length;
+  }
+
+  if (!frame) throw damaged();
+  return toPixels(frame, quantTables, adobeTransform);
+};
+
+/**
+ * Renders the decoded components and converts them to RGBA, upsampling subsampled
+ * chroma by repeating samples.
+ */
+const toPixels = (frame: Frame, quantTables: Uint16Array[], adobeTransform: number | null): DecodedPixels => {
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map(component => {
+    const quant = quantTables[component.quantTable];
+    if (!quant) throw damaged();
+    return {
+      samples: renderComponent(component, quant),
+      stride: component.paddedBlocksPerLine * 8,
+      // Sample positions per output pixel, as fixed ratios of the component's subsampling
+      xs: Array.from({ length: width }, (_, x) => Math.floor((x * component.h) / maxH)),
+      yScale: component.v / maxV,
+    };
+  });
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  // Three components are YCbCr unless an Adobe marker says they are plain RGB
+  const ycc = components.length === 3 && adobeTransform !== 0;
+
+  for (let y = 0; y < height; y++) {
+    const rows = planes.map(plane => Math.floor(y * plane.yScale) * plane.stride);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const first = planes[0].samples[rows[0] + planes[0].xs[x]];
+      if (planes.length === 1) {
+        data[i] = data[i + 1] = data[i + 2] = first;
+      } else {
+        const second = planes[1].samples[rows[1] + planes[1].xs[x]];
+        const third = planes[2].samples[rows[2] + planes[2].xs[x]];
+        if (ycc) {
+          const cb = second - 128;
+          const cr = third - 128;
+          data[i] = first + 1.402 * cr;
+          data[i + 1] = first - 0.344136 * cb - 0.714136 * cr;
+          data[i + 2] = first + 1.772 * cb;
+        } else {
+          data[i] = first;
+          data[i + 1] = second;
+          data[i + 2] = third;
+        }
+      }
+      data[i + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,317 @@
+import { DecodedPixels } from './decodedPixels';
+import { DCT_COSINES, ZIGZAG } from './jpegDecoder';
+
+// Pure TypeScript baseline JPEG encoder, the counterpart of canvas.toBlob('image/jpeg')
+// where there is no canvas. Writes JFIF with 4:2:0 chroma subsampling, the standard
+// (Annex K) quantization and Huffman tables, and libjpeg's quality scaling.
+
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// Huffman tables as (counts per code length 1–16, symbols)
+interface HuffmanSpec {
+  counts: number[];
+  symbols: number[];
+}
+
+const DC_LUMA: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMA: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMA: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMA: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+/** Code and length per symbol. */
+interface HuffmanCodes {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+const buildCodes = ({ counts, symbols }: HuffmanSpec): HuffmanCodes => {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[symbols[index]] = code++;
+      lengths[symbols[index++]] = length;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+};
+
+const HUFFMAN = {
+  dcLuma: buildCodes(DC_LUMA),
+  acLuma: buildCodes(AC_LUMA),
+  dcChroma: buildCodes(DC_CHROMA),
+  acChroma: buildCodes(AC_CHROMA),
+};
+
+/**
+ * Scales a base table the way libjpeg does for quality 1–100, in natural order.
+ */
+const scaleQuant = (base: number[], quality: number): Uint8Array => {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return Uint8Array.from(base, value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+};
+
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value >> 8);
+    this.byte(value & 0xff);
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  /** Writes entropy-coded bits, stuffing a zero after every 0xFF. */
+  bits(value: number, count: number) {
+    this.bitBuffer = (this.bitBuffer << count) | (value & ((1 << count) - 1));
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      const byte = (this.bitBuffer >> (this.bitCount - 8)) & 0xff;
+      this.byte(byte);
+      if (byte === 0xff) this.byte(0);
+      this.bitCount -= 8;
+    }
+    this.bitBuffer &= (1 << this.bitCount) - 1;
+  }
+
+  /** Pads the last byte with 1 bits. */
+  flushBits() {
+    if (this.bitCount > 0) this.bits(0x7f, 8 - this.bitCount);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const writeHuffmanTable = (writer: ByteWriter, id: number, spec: HuffmanSpec) => {
+  writer.byte(id);
+  writer.array(spec.counts);
+  writer.array(spec.symbols);
+};
+
+const writeHeaders = (writer: ByteWriter, width: number, height: number, luma: Uint8Array, chroma: Uint8Array) => {
+  writer.word(0xffd8);
+
+  // JFIF APP0, 1:1 pixel aspect
+  writer.word(0xffe0);
+  writer.word(16);
+  writer.array([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+  // Both quantization tables, in zigzag order
+  writer.word(0xffdb);
+  writer.word(2 + 2 * 65);
+  [luma, chroma].forEach((table, id) => {
+    writer.byte(id);
+    for (let k = 0; k < 64; k++) writer.byte(table[ZIGZAG[k]]);
+  });
+
+  // Baseline frame: Y at 2×2, Cb and Cr at 1×1
+  writer.word(0xffc0);
+  writer.word(17);
+  writer.byte(8);
+  writer.word(height);
+  writer.word(width);
+  writer.byte(3);
+  writer.array([1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+  writer.word(0xffc4);
+  writer.word(2 + [DC_LUMA, AC_LUMA, DC_CHROMA, AC_CHROMA].reduce((sum, spec) => sum + 17 + spec.symbols.length, 0));
+  writeHuffmanTable(writer, 0x00, DC_LUMA);
+  writeHuffmanTable(writer, 0x10, AC_LUMA);
+  writeHuffmanTable(writer, 0x01, DC_CHROMA);
+  writeHuffmanTable(writer, 0x11, AC_CHROMA);
+
+  writer.word(0xffda);
+  writer.word(12);
+  writer.array([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+};
+
+/** Bits needed for a coefficient's magnitude, and its sign-magnitude bit pattern. */
+const magnitude = (value: number): [size: number, bits: number] => {
+  const abs = Math.abs(value);
+  const size = abs ? 32 - Math.clz32(abs) : 0;
+  return [size, value < 0 ? value + (1 << size) - 1 : value];
+};
+
+/**
+ * Encodes RGBA pixels as a baseline JPEG. `quality` is 0–1 like canvas.toBlob's.
+ * Transparent pixels are composited onto black, as browsers do.
+ */
+export const encodeJpeg = (pixels: DecodedPixels, quality: number): Uint8Array => {
+  const { width, height, data } = pixels;
+  const q = Math.min(100, Math.max(1, Math.round(quality * 100)));
+  const luma = scaleQuant(LUMA_QUANT, q);
+  const chroma = scaleQuant(CHROMA_QUANT, q);
+  const writer = new ByteWriter();
+  writeHeaders(writer, width, height, luma, chroma);
+
+  // Full-resolution planes, centred on 0, padded to whole 16×16 MCUs by repeating edges
+  const paddedWidth = Math.ceil(width / 16) * 16;
+  const paddedHeight = Math.ceil(height / 16) * 16;
+  const yPlane = new Float32Array(paddedWidth * paddedHeight);
+  const cbPlane = new Float32Array(paddedWidth * paddedHeight);
+  const crPlane = new Float32Array(paddedWidth * paddedHeight);
+  for (let y = 0; y < paddedHeight; y++) {
+    const sy = Math.min(y, height - 1);
+    for (let x = 0; x < paddedWidth; x++) {
+      const i = (sy * width + Math.min(x, width - 1)) * 4;
+      const a = data[i + 3] / 255;
+      const r = data[i] * a;
+      const g = data[i + 1] * a;
+      const b = data[i + 2] * a;
+      const p = y * paddedWidth + x;
+      yPlane[p] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+      cbPlane[p] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+      crPlane[p] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+    }
+  }
+
+  const block = new Float32Array(64);
+  const temp = new Float32Array(64);
+  const quantized = new Int32Array(64);
+  const predictors = [0, 0, 0];
+
+  // Forward DCT of `block` (F(u) = Σ C(u)/2 · f(x) · cos((2x + 1)uπ / 16) per axis), then quantize
+  const transform = (table: Uint8Array) => {
+    for (let y = 0; y < 8; y++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let x = 0; x < 8; x++) sum += DCT_COSINES[x * 8 + u] * block[y * 8 + x];
+        temp[y * 8 + u] = sum;
+      }
+    }
+    for (let u = 0; u < 8; u++) {
+      for (let v = 0; v < 8; v++) {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) sum += DCT_COSINES[y * 8 + v] * temp[y * 8 + u];
+        quantized[v * 8 + u] = Math.round(sum / table[v * 8 + u]);
+      }
+    }
+  };
+
+  const encodeBlock = (component: number, dc: HuffmanCodes, ac: HuffmanCodes) => {
+    const diff = quantized[0] - predictors[component];
+    predictors[component] = quantized[0];
+    const [dcSize, dcBits] = magnitude(diff);
+    writer.bits(dc.codes[dcSize], dc.lengths[dcSize]);
+    if (dcSize) writer.bits(dcBits, dcSize);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = quantized[ZIGZAG[k]];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.bits(ac.codes[0xf0], ac.lengths[0xf0]);
+        run -= 16;
+      }
+      const [size, bits] = magnitude(value);
+      const symbol = (run << 4) | size;
+      writer.bits(ac.codes[symbol], ac.lengths[symbol]);
+      writer.bits(bits, size);
+      run = 0;
+    }
+    if (run > 0) writer.bits(ac.codes[0], ac.lengths[0]);
+  };
+
+  for (let my = 0; my < paddedHeight; my += 16) {
+    for (let mx = 0; mx < paddedWidth; mx += 16) {
+      for (let by = 0; by < 16; by += 8) {
+        for (let bx = 0; bx < 16; bx += 8) {
+          for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) block[y * 8 + x] = yPlane[(my + by + y) * paddedWidth + mx + bx + x];
+          }
+          transform(luma);
+          encodeBlock(0, HUFFMAN.dcLuma, HUFFMAN.acLuma);
+        }
+      }
+
+      // Chroma: average each 2×2 group of the MCU
+      [cbPlane, crPlane].forEach((plane, index) => {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const p = (my + y * 2) * paddedWidth + mx + x * 2;
+            block[y * 8 + x] = (plane[p] + plane[p + 1] + plane[p + paddedWidth] + plane[p + paddedWidth + 1]) / 4;
+          }
+        }
+        transform(chroma);
+        encodeBlock(index + 1, HUFFMAN.dcChroma, HUFFMAN.acChroma);
+      });
+    }
+  }
+
+  writer.flushBits();
+  writer.word(0xffd9);
+  return writer.result();
+};
@@ -0,0 +1,57 @@
+// Helpers for splicing extra marker segments into an encoded JPEG.
+
+const SOI = 0xd8;
+const APP0 = 0xe0;
+
+/**
+ * Offset where new segments can be inserted: right after SOI, or after a leading
+ * JFIF APP0 segment (JFIF requires APP0 to follow SOI directly).
+ */
+export const findJpegInsertOffset = (data: Uint8Array): number => {
+  if (data[0] !== 0xff || data[1] !== SOI) {
+    throw new Error('Not a JPEG file');
+  }
+  if (data[2] === 0xff && data[3] === APP0) {
+    return 4 + ((data[4] << 8) | data[5]);
+  }
+  return 2;
+};
+
+/**
+ * Returns a new JPEG blob with the given (complete) marker segments inserted near the start.
+ */
+export const insertJpegSegments = async (blob: Blob, segments: Uint8Array[]): Promise<Blob> => {
+  if (segments.length === 0) return blob;
+
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const offset = findJpegInsertOffset(data);
+  return new Blob(
+    [data.subarray(0, offset), ...segments, data.subarray(offset)],
+    { type: 'image/jpeg' }
+  );
+};
+
+/**
+ * Iterates over the marker segments before the image data (stops at SOS).
+ * Yields the marker byte and the segment payload (without marker and length).
+ */
+export function* readJpegSegments(data: Uint8Array): Generator<{ marker: number; payload: Uint8Array }> {
+  if (data[0] !== 0xff || data[1] !== SOI) return;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return;
+    const marker = data[offset + 1];
+    // Fill bytes
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of scan: entropy-coded data follows, no more headers
+    if (marker === 0xda) return;
+
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    yield { marker, payload: data.subarray(offset + 4, offset + 2 + length) };
+    offset += 2 + length;
+  }
+}
@@ -0,0 +1,72 @@
+import { crc32 } from './zip';
+import { findJpegInsertOffset } from './jpegSegments';
+
+// Padding grows a file without touching its pixels, for portals that reject files
+// below a minimum size. The filler lives in a segment/chunk every decoder skips.
+
+const JPEG_COM_MAX_PAYLOAD = 65533; // Segment length field is 16-bit and includes itself
+
+/**
+ * Whether padImageToSize can grow files of this MIME type.
+ */
+export const canPadType = (type: string): boolean =>
+  type === 'image/jpeg' || type === 'image/png';
+
+const jpegCommentSegments = (bytes: number): Uint8Array[] => {
+  const segments: Uint8Array[] = [];
+  let remaining = bytes;
+
+  while (remaining > 0) {
+    // Each segment has 4 bytes of overhead (marker + length); anything smaller can't be represented
+    const payload = Math.max(0, Math.min(JPEG_COM_MAX_PAYLOAD, remaining - 4));
+    const segment = new Uint8Array(4 + payload);
+    segment[0] = 0xff;
+    segment[1] = 0xfe; // COM marker
+    segment[2] = ((payload + 2) >> 8) & 0xff;
+    segment[3] = (payload + 2) & 0xff;
+    segment.fill(0x20, 4); // Spaces
+    segments.push(segment);
+    remaining -= segment.length;
+  }
+
+  return segments;
+};
+
+const pngPaddingChunk = (bytes: number): Uint8Array => {
+  // Length (4) + type (4) + CRC (4) surround the payload
+  const payload = Math.max(0, bytes - 12);
+  const chunk = new Uint8Array(12 + payload);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, payload);
+  // "paDd": ancillary, private, safe-to-copy chunk that viewers ignore
+  chunk.set([0x70, 0x61, 0x44, 0x64], 4);
+  view.setUint32(8 + payload, crc32(chunk.subarray(4, 8 + payload)));
+  return chunk;
+};
+
+/**
+ * Grows a JPEG or PNG blob to at least `targetBytes` by inserting ignorable filler data.
+ * Returns the original blob when it is already large enough or the type can't be padded.
+ */
+export const padImageToSize = async (blob: Blob, targetBytes: number): Promise<Blob> => {
+  const missing = Math.ceil(targetBytes - blob.size);
+  if (missing <= 0 || !canPadType(blob.type)) return blob;
+
+  const data = new Uint8Array(await blob.arrayBuffer());
+
+  if (blob.type === 'image/jpeg') {
+    // Insert near the start, after SOI (and the JFIF header if there is one)
+    const offset = findJpegInsertOffset(data);
+    return new Blob(
+      [data.subarray(0, offset), ...jpegCommentSegments(Math.max(missing, 4)), data.subarray(offset)],
+      { type: blob.type }
+    );
+  }
+
+  // PNG: insert before the final IEND chunk (last 12 bytes)
+  const iend = data.length - 12;
+  return new Blob(
+    [data.subarray(0, iend), pngPaddingChunk(Math.max(missing, 12)), data.subarray(iend)],
+    { type: blob.type }
+  );
+};
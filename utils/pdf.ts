@@ -0,0 +1,143 @@
+import { readJpegSegments } from './jpegSegments';
+import { UnsupportedImageError } from './errors';
+import { PdfOptions } from '../types';
+
+// Minimal PDF writer: one image per page. JPEGs are embedded as they are (DCTDecode), so
+// the PDF is only a few hundred bytes per page larger than the images themselves.
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+// Page sizes in points (1/72 inch), portrait
+const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+const POINTS_PER_MM = 72 / 25.4;
+
+// Bytes a page's numbers (lengths, offsets, sizes) may grow by beyond the estimate
+const PAGE_NUMBER_SLACK = 24;
+
+const encoder = new TextEncoder();
+
+/**
+ * Reads the dimensions and colour components from a JPEG's frame header.
+ */
+const readJpegInfo = (data: Uint8Array): JpegInfo => {
+  for (const { marker, payload } of readJpegSegments(data)) {
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (payload[1] << 8) | payload[2],
+        width: (payload[3] << 8) | payload[4],
+        components: payload[5],
+      };
+    }
+  }
+  throw new UnsupportedImageError("A page couldn't be added to the PDF because it isn't a JPEG image.");
+};
+
+const colorSpace = (components: number): string => {
+  if (components === 1) return '/DeviceGray';
+  // Adobe CMYK JPEGs are stored inverted
+  if (components === 4) return '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]';
+  return '/DeviceRGB';
+};
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Page size for an image, in points. A4 and Letter turn to landscape for wide images;
+ * "fit" pages take the image's proportions with the long side of an A4 page.
+ */
+const pageSizeFor = (aspect: number, options: PdfOptions): { width: number; height: number } => {
+  const landscape = aspect > 1;
+  if (options.pageSize === 'fit') {
+    const margin = 2 * options.marginMm * POINTS_PER_MM;
+    const long = PAGE_SIZES.a4.height - margin;
+    return landscape
+      ? { width: long + margin, height: long / aspect + margin }
+      : { width: long * aspect + margin, height: long + margin };
+  }
+  const { width, height } = PAGE_SIZES[options.pageSize];
+  return landscape ? { width: height, height: width } : { width, height };
+};
+
+/**
+ * Writes a PDF with one JPEG per page, centred inside the margins.
+ */
+export const createPdf = (jpegs: Uint8Array[], options: PdfOptions): Blob => {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: Uint8Array | string) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, contents and image for each page
+  const pageIds = jpegs.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${jpegs.length} >>`);
+
+  jpegs.forEach((jpeg, index) => {
+    const id = pageIds[index];
+    const info = readJpegInfo(jpeg);
+    const aspect = info.width / info.height;
+    const size = pageSizeFor(aspect, options);
+    const margin = options.marginMm * POINTS_PER_MM;
+    const boxWidth = Math.max(1, size.width - 2 * margin);
+    const boxHeight = Math.max(1, size.height - 2 * margin);
+    const scale = Math.min(boxWidth / aspect, boxHeight);
+    const drawWidth = scale * aspect;
+    const drawHeight = scale;
+    const x = (size.width - drawWidth) / 2;
+    const y = (size.height - drawHeight) / 2;
+    const contents = encoder.encode(`q ${num(drawWidth)} 0 0 ${num(drawHeight)} ${num(x)} ${num(y)} cm /Im0 Do Q`);
+
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    object(id + 1, `<< /Length ${contents.length} >>`, contents);
+    object(id + 2, `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} ` +
+      `/ColorSpace ${colorSpace(info.components)} /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg);
+  });
+
+  const xrefOffset = length;
+  const count = 3 + jpegs.length * 3;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+// Smallest valid JPEG header, for measuring the PDF structure without any image data
+const PLACEHOLDER_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x03, 0xe8, 0x03, 0xe8, 0x01, 0x01, 0x11, 0x00]);
+
+/**
+ * Bytes the PDF adds on top of the JPEG data for this many pages. Slightly generous,
+ * so images sized to fit the rest always fit.
+ */
+export const estimatePdfOverhead = (pageCount: number, options: PdfOptions): number =>
+  createPdf(Array.from({ length: pageCount }, () => PLACEHOLDER_JPEG), options).size -
+  pageCount * PLACEHOLDER_JPEG.length +
+  pageCount * PAGE_NUMBER_SLACK;
@@ -0,0 +1,99 @@
+import { compressInBackground } from './compressionClient';
+import { CompressionOptions, CompressionResult } from './imageProcessor';
+import { createPdf, estimatePdfOverhead } from './pdf';
+import { TargetTooSmallError } from './errors';
+import { CompressionStatus, PdfOptions } from '../types';
+
+export interface PdfExportProgress {
+  /** Page being compressed, from 0. */
+  page: number;
+  pageCount: number;
+  /** 0 for the first pass; later passes give spare bytes to pages that could use them. */
+  round: number;
+}
+
+export interface PdfExportResult {
+  blob: Blob;
+  pages: CompressionResult[];
+  /** "met" when the whole PDF is within the budget. */
+  status: CompressionStatus;
+}
+
+export interface PdfExportOptions extends PdfOptions {
+  /**
+   * Applied to every page. The format is always JPEG, which a PDF can embed as it is,
+   * transparency is flattened, and pages have no minimum size.
+   */
+  compression?: Omit<CompressionOptions, 'onProgress' | 'signal'>;
+  onProgress?: (progress: PdfExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Passes after the first that hand unused bytes to pages that used up their share
+const REBALANCE_ROUNDS = 2;
+// A page that used at least this share of its budget could look better with more
+const HUNGRY_SHARE = 0.9;
+// Spare bytes below this share of the budget aren't worth another pass
+const MIN_SPARE_SHARE = 0.03;
+
+/**
+ * Builds a PDF of the images, in order, that fits within `targetKB` in total.
+ * The budget is split evenly across pages first. Pages that don't need their share
+ * (e.g. simple scans) leave it to the others, which are then compressed again.
+ */
+export const exportPdfToTarget = async (
+  files: Blob[],
+  targetKB: number,
+  options: PdfExportOptions
+): Promise<PdfExportResult> => {
+  const { compression = {}, onProgress, signal, ...layout } = options;
+  const budget = targetKB * 1024 - estimatePdfOverhead(files.length, layout);
+  if (budget <= 0) {
+    throw new TargetTooSmallError(`${targetKB} KB is too small for a PDF with ${files.length} pages.`);
+  }
+
+  const targets = files.map(() => budget / files.length);
+  const pages: CompressionResult[] = [];
+
+  const compressPage = async (index: number, round: number) => {
+    onProgress?.({ page: index, pageCount: files.length, round });
+    pages[index] = await compressInBackground(files[index], targets[index] / 1024, {
+      ...compression,
+      format: 'image/jpeg',
+      minSizeKB: undefined,
+      // Keeping alpha would switch transparent pages to WebP, which a PDF can't embed
+      transparency: { mode: 'flatten', background: compression.transparency?.background ?? '#ffffff' },
+      signal,
+    });
+  };
+
+  for (let index = 0; index < files.length; index++) {
+    await compressPage(index, 0);
+  }
+
+  for (let round = 1; round <= REBALANCE_ROUNDS; round++) {
+    const used = pages.reduce((total, page) => total + page.blob.size, 0);
+    const spare = budget - used;
+    const hungry = pages
+      .map((page, index) => ({ page, index }))
+      .filter(({ page, index }) => page.status !== 'failed' && page.quality < 1 && page.blob.size >= targets[index] * HUNGRY_SHARE)
+      .map(({ index }) => index);
+    if (hungry.length === 0 || spare < budget * MIN_SPARE_SHARE) break;
+
+    // Every page keeps what it used; the hungry ones share what's left
+    pages.forEach((page, index) => {
+      targets[index] = page.blob.size + (hungry.includes(index) ? spare / hungry.length : 0);
+    });
+    for (const index of hungry) {
+      await compressPage(index, round);
+    }
+  }
+
+  const jpegs = await Promise.all(pages.map(async page => new Uint8Array(await page.blob.arrayBuffer())));
+  const blob = createPdf(jpegs, layout);
+  return {
+    blob,
+    pages,
+    status: blob.size <= targetKB * 1024 ? 'met' : 'failed',
+  };
+};
@@ -0,0 +1,142 @@
+import type { CompressionSource } from './imageProcessor';
+import { DecodedPixels } from './decodedPixels';
+import { ImageBackend } from './imageBackend';
+import { detectImageFormat } from './imageDecoder';
+import { decodeJpeg } from './jpegDecoder';
+import { encodeJpeg } from './jpegEncoder';
+import { decodePng, encodePng } from './pngCodec';
+import { decodeBmp } from './bmpDecoder';
+import { decodeTiff } from './tiffDecoder';
+import { decodeHeic } from './heicDecoder';
+import { ExifData, readExif } from './exif';
+import { UnsupportedImageError } from './errors';
+import { resamplePixels } from './resample';
+import { ResamplingMethod } from '../types';
+
+// A backend without any canvas: images are RGBA arrays, resized with our kernels and
+// encoded with our own JPEG and PNG codecs. It can't encode WebP; like a browser without
+// a WebP encoder it returns PNG, and the search then falls back to JPEG.
+
+// Largest image rendered, the same area as the biggest canvas browsers allow
+const MAX_PIXELS = 8192 * 8192;
+
+const parseColor = (color: string): [number, number, number] => {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [255, 255, 255];
+  const value = parseInt(full, 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+};
+
+/**
+ * Resizes with a kernel filter. The canvas-only methods (browser, stepwise) use bicubic.
+ */
+const resize = (pixels: DecodedPixels, width: number, height: number, resampling?: ResamplingMethod): DecodedPixels =>
+  width === pixels.width && height === pixels.height
+    ? pixels
+    : resamplePixels(pixels, width, height, resampling === 'lanczos' ? 'lanczos' : 'bicubic');
+
+/**
+ * Decodes a JPEG, PNG, BMP, TIFF or HEIC file to RGBA pixels, without EXIF orientation.
+ */
+export const decodeImageBytes = async (bytes: Uint8Array): Promise<{ pixels: DecodedPixels; type: string }> => {
+  switch (detectImageFormat(bytes)) {
+    case 'jpeg':
+      return { pixels: decodeJpeg(bytes), type: 'image/jpeg' };
+    case 'png':
+      return { pixels: await decodePng(bytes), type: 'image/png' };
+    case 'bmp':
+      return { pixels: decodeBmp(bytes), type: 'image/bmp' };
+    case 'tiff':
+      return { pixels: await decodeTiff(bytes), type: 'image/tiff' };
+    case 'heic':
+      return { pixels: await decodeHeic(bytes), type: 'image/heic' };
+    default:
+      throw new UnsupportedImageError("This file isn't a supported image. Try JPEG, PNG, HEIC, TIFF or BMP.");
+  }
+};
+
+/**
+ * Turns pixels upright according to an EXIF orientation (1–8).
+ */
+export const orientPixels = (pixels: DecodedPixels, orientation: number): DecodedPixels => {
+  if (orientation < 2 || orientation > 8) return pixels;
+
+  const { width: w, height: h, data } = pixels;
+  const swap = orientation >= 5;
+  const width = swap ? h : w;
+  const height = swap ? w : h;
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Source pixel for each output pixel
+      const [sx, sy] =
+        orientation === 2 ? [w - 1 - x, y]
+        : orientation === 3 ? [w - 1 - x, h - 1 - y]
+        : orientation === 4 ? [x, h - 1 - y]
+        : orientation === 5 ? [y, x]
+        : orientation === 6 ? [y, h - 1 - x]
+        : orientation === 7 ? [w - 1 - y, h - 1 - x]
+        : [w - 1 - y, x];
+      const from = (sy * w + sx) * 4;
+      const to = (y * width + x) * 4;
+      out[to] = data[from];
+      out[to + 1] = data[from + 1];
+      out[to + 2] = data[from + 2];
+      out[to + 3] = data[from + 3];
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+/**
+ * Decodes a file into an upright source for the pixel backend, with its EXIF data.
+ */
+export const decodePixelSource = async (file: Blob): Promise<{
+  source: CompressionSource<DecodedPixels>;
+  exif: ExifData | null;
+}> => {
+  const exif = await readExif(file);
+  const { pixels, type } = await decodeImageBytes(new Uint8Array(await file.arrayBuffer()));
+  const image = orientPixels(pixels, exif?.orientation ?? 1);
+  return { source: { image, width: image.width, height: image.height, type }, exif };
+};
+
+export const createPixelBackend = (): ImageBackend<DecodedPixels> => ({
+  render: (source, width, height, resampling) => resize(source.image, width, height, resampling),
+
+  encode: async (frame, type, quality) => type === 'image/jpeg'
+    ? new Blob([encodeJpeg(frame, quality)], { type })
+    : new Blob([await encodePng(frame)], { type: 'image/png' }),
+
+  decode: async (blob) => {
+    const { pixels } = await decodeImageBytes(new Uint8Array(await blob.arrayBuffer()));
+    return { image: pixels, width: pixels.width, height: pixels.height, release: () => {} };
+  },
+
+  readPixels: (source, width, height) => resize(source.image, width, height),
+
+  hasTransparency: ({ image }) => {
+    for (let i = 3; i < image.data.length; i += 4) {
+      if (image.data[i] < 255) return true;
+    }
+    return false;
+  },
+
+  flatten: ({ image }, background) => {
+    const [r, g, b] = parseColor(background);
+    const data = new Uint8ClampedArray(image.data.length);
+    for (let i = 0; i < data.length; i += 4) {
+      const a = image.data[i + 3] / 255;
+      data[i] = image.data[i] * a + r * (1 - a);
+      data[i + 1] = image.data[i + 1] * a + g * (1 - a);
+      data[i + 2] = image.data[i + 2] * a + b * (1 - a);
+      data[i + 3] = 255;
+    }
+    return { ...image, data };
+  },
+
+  fits: (width, height) => width * height <= MAX_PIXELS,
+});
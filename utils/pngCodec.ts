@@ -0,0 +1,268 @@
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+import { crc32 } from './zip';
+import { deflate, inflate } from './deflate';
+
+// Pure TypeScript PNG encoder and decoder, for running the pipeline where there is no
+// canvas (Node). The zlib layer uses the platform's CompressionStream (see utils/deflate).
+// Decodes every standard colour type and bit depth, interlaced or not.
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const COLOR_GRAY = 0;
+const COLOR_RGB = 2;
+const COLOR_PALETTE = 3;
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+
+const CHANNELS: Record<number, number> = {
+  [COLOR_GRAY]: 1,
+  [COLOR_RGB]: 3,
+  [COLOR_PALETTE]: 1,
+  [COLOR_GRAY_ALPHA]: 2,
+  [COLOR_RGBA]: 4,
+};
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const damaged = () => new UnsupportedImageError('This PNG file is damaged');
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+const chunk = (type: string, payload: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + payload.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, payload.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(payload, 8);
+  view.setUint32(8 + payload.length, crc32(bytes.subarray(4, 8 + payload.length)));
+  return bytes;
+};
+
+/**
+ * Encodes RGBA pixels as an 8-bit PNG, RGB when every pixel is opaque. Each row gets
+ * the filter with the smallest sum of absolute differences, the usual heuristic.
+ */
+export const encodePng = async (pixels: DecodedPixels): Promise<Uint8Array> => {
+  const { width, height, data } = pixels;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) opaque = data[i] === 255;
+  const channels = opaque ? 3 : 4;
+  const rowBytes = width * channels;
+
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  const previous = new Uint8Array(rowBytes);
+  const current = new Uint8Array(rowBytes);
+  const candidate = new Uint8Array(rowBytes);
+  const best = new Uint8Array(rowBytes);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+      for (let c = 0; c < channels; c++) current[x * channels + c] = data[i + c];
+    }
+
+    let bestFilter = 0;
+    let bestCost = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      let cost = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= channels ? current[i - channels] : 0;
+        const up = previous[i];
+        const upLeft = i >= channels ? previous[i - channels] : 0;
+        const predicted = filter === 0 ? 0
+          : filter === 1 ? left
+          : filter === 2 ? up
+          : filter === 3 ? (left + up) >> 1
+          : paeth(left, up, upLeft);
+        const value = (current[i] - predicted) & 0xff;
+        candidate[i] = value;
+        cost += value < 128 ? value : 256 - value;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+
+    raw[y * (rowBytes + 1)] = bestFilter;
+    raw.set(best, y * (rowBytes + 1) + 1);
+    previous.set(current);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;
+  header[9] = opaque ? COLOR_RGB : COLOR_RGBA;
+
+  const parts = [
+    Uint8Array.from(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    png.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return png;
+};
+
+/**
+ * Reverses the per-row filters of one (sub)image in place.
+ */
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bytesPerPixel: number) => {
+  for (let y = 0; y < rows; y++) {
+    const start = offset + y * (rowBytes + 1);
+    const filter = data[start];
+    const row = start + 1;
+    const up = row - (rowBytes + 1);
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? data[row + i - bytesPerPixel] : 0;
+      const above = y > 0 ? data[up + i] : 0;
+      const aboveLeft = y > 0 && i >= bytesPerPixel ? data[up + i - bytesPerPixel] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: data[row + i] += left; break;
+        case 2: data[row + i] += above; break;
+        case 3: data[row + i] += (left + above) >> 1; break;
+        case 4: data[row + i] += paeth(left, above, aboveLeft); break;
+        default: throw damaged();
+      }
+    }
+  }
+};
+
+/**
+ * Decodes a PNG file to 8-bit RGBA pixels.
+ */
+export const decodePng = async (bytes: Uint8Array): Promise<DecodedPixels> => {
+  if (bytes.length < 8 || SIGNATURE.some((value, i) => bytes[i] !== value)) throw damaged();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const payload = bytes.subarray(offset + 8, offset + 8 + length);
+    if (payload.length !== length) throw damaged();
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      depth = payload[8];
+      colorType = payload[9];
+      interlaced = payload[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = payload;
+    } else if (type === 'tRNS') {
+      transparency = payload;
+    } else if (type === 'IDAT') {
+      compressed.push(payload);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(depth) || (colorType === COLOR_PALETTE && !palette)) {
+    throw damaged();
+  }
+
+  const joined = new Uint8Array(compressed.reduce((total, part) => total + part.length, 0));
+  compressed.reduce((offset, part) => {
+    joined.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  const raw = await inflate(joined);
+
+  const bitsPerPixel = channels * depth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const out = new Uint8ClampedArray(width * height * 4);
+  const maxSample = (1 << depth) - 1;
+
+  // Key colour for grey / RGB images with tRNS, at the image's bit depth
+  const key = transparency && colorType === COLOR_GRAY && transparency.length >= 2
+    ? [(transparency[0] << 8) | transparency[1]]
+    : transparency && colorType === COLOR_RGB && transparency.length >= 6
+      ? [0, 2, 4].map(i => (transparency![i] << 8) | transparency![i + 1])
+      : null;
+
+  const sample = (row: number, index: number): number => {
+    if (depth === 16) return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1];
+    if (depth === 8) return raw[row + index];
+    const bit = index * depth;
+    return (raw[row + (bit >> 3)] >> (8 - depth - (bit & 7))) & maxSample;
+  };
+  const to8 = (value: number) => (depth === 16 ? value >> 8 : Math.round((value * 255) / maxSample));
+
+  let offset = 0;
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+  for (const [x0, y0, dx, dy] of passes) {
+    const columns = Math.ceil((width - x0) / dx);
+    const rows = Math.ceil((height - y0) / dy);
+    if (columns <= 0 || rows <= 0) continue;
+
+    const rowBytes = Math.ceil((columns * bitsPerPixel) / 8);
+    if (offset + rows * (rowBytes + 1) > raw.length) throw damaged();
+    unfilter(raw, offset, rowBytes, rows, bytesPerPixel);
+
+    for (let r = 0; r < rows; r++) {
+      const row = offset + r * (rowBytes + 1) + 1;
+      for (let c = 0; c < columns; c++) {
+        const o = ((y0 + r * dy) * width + x0 + c * dx) * 4;
+        const first = sample(row, c * channels);
+        if (colorType === COLOR_PALETTE) {
+          out[o] = palette![first * 3];
+          out[o + 1] = palette![first * 3 + 1];
+          out[o + 2] = palette![first * 3 + 2];
+          out[o + 3] = transparency && first < transparency.length ? transparency[first] : 255;
+        } else if (colorType === COLOR_GRAY || colorType === COLOR_GRAY_ALPHA) {
+          out[o] = out[o + 1] = out[o + 2] = to8(first);
+          out[o + 3] = colorType === COLOR_GRAY_ALPHA
+            ? to8(sample(row, c * channels + 1))
+            : key && first === key[0] ? 0 : 255;
+        } else {
+          const second = sample(row, c * channels + 1);
+          const third = sample(row, c * channels + 2);
+          out[o] = to8(first);
+          out[o + 1] = to8(second);
+          out[o + 2] = to8(third);
+          out[o + 3] = colorType === COLOR_RGBA
+            ? to8(sample(row, c * channels + 3))
+            : key && first === key[0] && second === key[1] && third === key[2] ? 0 : 255;
+        }
+      }
+    }
+    offset += rows * (rowBytes + 1);
+  }
+
+  return { width, height, data: out };
+};
@@ -0,0 +1,186 @@
+import { EncodableFormat, OutputFormat, Preset, ResizeMode, TargetDimensions } from '../types';
+
+const STORAGE_KEY = 'picresize.presets';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'builtin-passport',
+    name: 'Passport photo',
+    targetKB: 50,
+    minKB: 20,
+    format: 'image/jpeg',
+    dimensions: { width: 413, height: 531, mode: 'fill', background: '#ffffff' },
+    cropAspect: 35 / 45,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-exam-photo',
+    name: 'Exam photo (200×230)',
+    targetKB: 50,
+    minKB: 20,
+    format: 'image/jpeg',
+    dimensions: { width: 200, height: 230, mode: 'fill', background: '#ffffff' },
+    cropAspect: 200 / 230,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-signature',
+    name: 'Signature',
+    targetKB: 20,
+    minKB: 10,
+    format: 'image/jpeg',
+    dimensions: { width: 140, height: 60, mode: 'pad', background: '#ffffff' },
+    cropAspect: 140 / 60,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-aadhaar',
+    name: 'Aadhaar scan',
+    targetKB: 200,
+    format: 'image/jpeg',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-document',
+    name: 'Document (A4 scan)',
+    targetKB: 300,
+    format: 'image/jpeg',
+    dimensions: { width: 1240, mode: 'fit', background: '#ffffff' },
+    builtIn: true,
+  },
+];
+
+const FORMATS: OutputFormat[] = ['image/jpeg', 'image/webp', 'image/png', 'original', 'auto'];
+const ENCODABLE_FORMATS: EncodableFormat[] = ['image/jpeg', 'image/webp', 'image/png'];
+const RESIZE_MODES: ResizeMode[] = ['fit', 'fill', 'pad'];
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+
+const createPresetId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks an untrusted object (e.g. from an imported file) and returns a clean preset,
+ * or throws with a message naming the problem.
+ */
+const parsePreset = (raw: unknown, index: number): Preset => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Preset ${index + 1} is not an object`);
+  }
+  const value = raw as Record<string, unknown>;
+  const label = typeof value.name === 'string' && value.name.trim() ? value.name.trim() : '';
+
+  if (!label) throw new Error(`Preset ${index + 1} has no name`);
+  if (!isPositive(value.targetKB)) throw new Error(`"${label}" needs a positive targetKB`);
+  if (value.minKB !== undefined && (!isPositive(value.minKB) || value.minKB >= value.targetKB)) {
+    throw new Error(`"${label}" has a minKB that is not below targetKB`);
+  }
+
+  const format = (value.format ?? 'image/jpeg') as OutputFormat;
+  if (!FORMATS.includes(format)) throw new Error(`"${label}" has an unknown format`);
+
+  const autoFormats = value.autoFormats as EncodableFormat[] | undefined;
+  if (autoFormats !== undefined && (
+    !Array.isArray(autoFormats) || !autoFormats.length || !autoFormats.every(item => ENCODABLE_FORMATS.includes(item))
+  )) {
+    throw new Error(`"${label}" has invalid autoFormats`);
+  }
+
+  let dimensions: TargetDimensions | undefined;
+  if (value.dimensions !== undefined) {
+    const dims = value.dimensions as Record<string, unknown>;
+    const width = dims?.width;
+    const height = dims?.height;
+    const mode = (dims?.mode ?? 'fit') as ResizeMode;
+    if ((width !== undefined && !isPositive(width)) || (height !== undefined && !isPositive(height)) || (!width && !height)) {
+      throw new Error(`"${label}" has invalid dimensions`);
+    }
+    if (!RESIZE_MODES.includes(mode)) throw new Error(`"${label}" has an unknown resize mode`);
+    dimensions = {
+      width: width as number | undefined,
+      height: height as number | undefined,
+      mode,
+      background: typeof dims.background === 'string' ? dims.background : '#ffffff',
+    };
+  }
+
+  if (value.cropAspect !== undefined && !isPositive(value.cropAspect)) {
+    throw new Error(`"${label}" has an invalid cropAspect`);
+  }
+
+  return {
+    id: typeof value.id === 'string' && value.id.startsWith('user-') ? value.id : createPresetId(),
+    name: label,
+    targetKB: value.targetKB,
+    minKB: value.minKB as number | undefined,
+    format,
+    autoFormats,
+    dimensions,
+    cropAspect: value.cropAspect as number | undefined,
+  };
+};
+
+/**
+ * Reads the user's saved presets. Corrupt storage is ignored rather than breaking the app.
+ */
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(parsePreset) : [];
+  } catch (error) {
+    console.warn('Ignoring saved presets', error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: Preset[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+};
+
+/**
+ * Creates a new user preset with a fresh id.
+ */
+export const createUserPreset = (preset: Omit<Preset, 'id' | 'builtIn'>): Preset => ({
+  ...preset,
+  id: createPresetId(),
+});
+
+/**
+ * Serializes user presets to the shareable JSON format.
+ */
+export const exportPresetsJson = (presets: Preset[]): string => {
+  const exported = presets
+    .filter(preset => !preset.builtIn)
+    .map(({ builtIn, ...preset }) => preset);
+  return JSON.stringify({ version: EXPORT_VERSION, presets: exported }, null, 2);
+};
+
+/**
+ * Parses a presets file produced by exportPresetsJson (or a bare array of presets).
+ * Throws an Error with a user-facing message if the file is invalid.
+ */
+export const parsePresetsJson = (json: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('File does not contain a presets list');
+  }
+  return list.map(parsePreset);
+};
+
+/**
+ * Adds imported presets to the existing ones. Presets with the same id replace the old copy.
+ */
+export const mergePresets = (existing: Preset[], imported: Preset[]): Preset[] => {
+  const ids = new Set(imported.map(preset => preset.id));
+  return [...existing.filter(preset => !ids.has(preset.id)), ...imported];
+};
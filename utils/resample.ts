@@ -0,0 +1,264 @@
+import { AnyContext2D, createCanvas, get2dContext } from './canvas';
+import { DecodedPixels } from './decodedPixels';
+import { ResamplingMethod } from '../types';
+
+// Image resizing for the pipeline. A single drawImage to a much smaller size samples only a
+// few source pixels per output pixel, which aliases fine detail into noise that then costs
+// bytes. Stepwise halving lets the browser average 2×2 blocks at each step; the kernels
+// below filter every source pixel in a separable two-pass convolution.
+
+type Kernel = { support: number; weight: (x: number) => number };
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const KERNELS: Record<'bicubic' | 'lanczos', Kernel> = {
+  // Catmull-Rom (a = -0.5)
+  bicubic: {
+    support: 2,
+    weight: (x) => {
+      const t = Math.abs(x);
+      if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+      if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+      return 0;
+    },
+  },
+  // Lanczos3
+  lanczos: {
+    support: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+};
+
+interface Weights {
+  start: Int32Array;
+  count: Int32Array;
+  values: Float32Array;
+  /** Stride between the weight lists of consecutive output pixels. */
+  stride: number;
+}
+
+/**
+ * Precomputes, for every output position, which source pixels contribute and how much.
+ */
+const computeWeights = (srcSize: number, dstSize: number, kernel: Kernel): Weights => {
+  const scale = dstSize / srcSize;
+  // When shrinking, the kernel is widened so every source pixel is covered
+  const filterScale = Math.max(1, 1 / scale);
+  const radius = kernel.support * filterScale;
+  const stride = Math.ceil(radius) * 2 + 1;
+
+  const start = new Int32Array(dstSize);
+  const count = new Int32Array(dstSize);
+  const values = new Float32Array(dstSize * stride);
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale;
+    const left = Math.max(0, Math.floor(center - radius));
+    const right = Math.min(srcSize, Math.ceil(center + radius));
+    let total = 0;
+
+    for (let j = left; j < right; j++) {
+      const w = kernel.weight((j + 0.5 - center) / filterScale);
+      values[i * stride + j - left] = w;
+      total += w;
+    }
+    // Normalise so flat areas keep their brightness
+    for (let j = 0; j < right - left; j++) {
+      values[i * stride + j] /= total || 1;
+    }
+
+    start[i] = left;
+    count[i] = right - left;
+  }
+
+  return { start, count, values, stride };
+};
+
+// Output rows are produced in bands, so the intermediate buffer stays small even for
+// sources near the canvas limits
+const BAND_ROWS = 64;
+
+/**
+ * Resizes RGBA pixels with a bicubic or Lanczos3 kernel. Works on premultiplied alpha
+ * internally so transparent pixels don't bleed dark fringes into their neighbours.
+ */
+export const resamplePixels = (
+  src: DecodedPixels,
+  dstWidth: number,
+  dstHeight: number,
+  method: 'bicubic' | 'lanczos'
+): DecodedPixels => {
+  const kernel = KERNELS[method];
+  const { width: srcWidth, height: srcHeight, data } = src;
+  const h = computeWeights(srcWidth, dstWidth, kernel);
+  const v = computeWeights(srcHeight, dstHeight, kernel);
+
+  const out = new Uint8ClampedArray(dstWidth * dstHeight * 4);
+  const rowStride = dstWidth * 4;
+  const row = new Float32Array(srcWidth * 4);
+  let band = new Float32Array(0);
+
+  for (let y0 = 0; y0 < dstHeight; y0 += BAND_ROWS) {
+    const y1 = Math.min(dstHeight, y0 + BAND_ROWS);
+    const first = v.start[y0];
+    let last = first;
+    for (let y = y0; y < y1; y++) last = Math.max(last, v.start[y] + v.count[y]);
+
+    const needed = (last - first) * rowStride;
+    if (band.length < needed) band = new Float32Array(needed);
+
+    // Horizontal pass over the source rows this band needs
+    for (let sy = first; sy < last; sy++) {
+      const rowIn = sy * srcWidth * 4;
+      for (let i = 0; i < row.length; i += 4) {
+        const a = data[rowIn + i + 3] / 255;
+        row[i] = data[rowIn + i] * a;
+        row[i + 1] = data[rowIn + i + 1] * a;
+        row[i + 2] = data[rowIn + i + 2] * a;
+        row[i + 3] = data[rowIn + i + 3];
+      }
+
+      const rowOut = (sy - first) * rowStride;
+      for (let x = 0; x < dstWidth; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        const base = x * h.stride;
+        let p = h.start[x] * 4;
+        for (let k = 0; k < h.count[x]; k++, p += 4) {
+          const w = h.values[base + k];
+          r += row[p] * w;
+          g += row[p + 1] * w;
+          b += row[p + 2] * w;
+          a += row[p + 3] * w;
+        }
+        const o = rowOut + x * 4;
+        band[o] = r;
+        band[o + 1] = g;
+        band[o + 2] = b;
+        band[o + 3] = a;
+      }
+    }
+
+    // Vertical pass for the band's output rows, then un-premultiply
+    for (let y = y0; y < y1; y++) {
+      const base = y * v.stride;
+      for (let x = 0; x < dstWidth; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        let p = (v.start[y] - first) * rowStride + x * 4;
+        for (let k = 0; k < v.count[y]; k++, p += rowStride) {
+          const w = v.values[base + k];
+          r += band[p] * w;
+          g += band[p + 1] * w;
+          b += band[p + 2] * w;
+          a += band[p + 3] * w;
+        }
+        const o = y * rowStride + x * 4;
+        if (a > 0) {
+          const unpremultiply = 255 / Math.min(255, a);
+          out[o] = r * unpremultiply;
+          out[o + 1] = g * unpremultiply;
+          out[o + 2] = b * unpremultiply;
+        }
+        out[o + 3] = a;
+      }
+    }
+  }
+
+  return { width: dstWidth, height: dstHeight, data: out };
+};
+
+// Read on every draw: canvases are reused and redrawn, so cached pixels could be stale
+const readPixels = (image: CanvasImageSource, width: number, height: number): ImageData | null => {
+  const ctx = get2dContext(createCanvas(width, height));
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+const drawSmooth = (ctx: AnyContext2D, image: CanvasImageSource, dx: number, dy: number, dw: number, dh: number) => {
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, dx, dy, dw, dh);
+};
+
+/**
+ * Halves the image repeatedly until it is less than twice the target size, then draws it.
+ */
+const drawStepwise = (
+  ctx: AnyContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number
+) => {
+  let current = image;
+  let cw = width;
+  let ch = height;
+
+  while (cw >= dw * 2 || ch >= dh * 2) {
+    const nw = cw >= dw * 2 ? Math.ceil(cw / 2) : cw;
+    const nh = ch >= dh * 2 ? Math.ceil(ch / 2) : ch;
+    const step = createCanvas(nw, nh);
+    const stepCtx = get2dContext(step);
+    if (!stepCtx) break;
+
+    drawSmooth(stepCtx, current, 0, 0, nw, nh);
+    current = step;
+    cw = nw;
+    ch = nh;
+  }
+
+  drawSmooth(ctx, current, dx, dy, dw, dh);
+};
+
+/**
+ * Draws a whole image into the destination rectangle using the chosen resampling method.
+ * Enlarging and unchanged sizes always use the browser's (high quality) smoothing; the
+ * methods only differ when shrinking.
+ */
+export const drawResampled = (
+  ctx: AnyContext2D,
+  source: { image: CanvasImageSource; width: number; height: number },
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number,
+  method: ResamplingMethod = 'stepwise'
+): void => {
+  const { image, width, height } = source;
+  const shrinking = dw < width || dh < height;
+
+  if (!shrinking || method === 'browser') {
+    drawSmooth(ctx, image, dx, dy, dw, dh);
+    return;
+  }
+
+  if (method === 'stepwise') {
+    drawStepwise(ctx, image, width, height, dx, dy, dw, dh);
+    return;
+  }
+
+  // Kernel methods work on pixels: read the source, resample, then draw the result
+  // through a canvas so compositing (e.g. onto a padded background) still applies
+  const tw = Math.max(1, Math.round(dw));
+  const th = Math.max(1, Math.round(dh));
+  const pixels = readPixels(image, width, height);
+  const targetCanvas = createCanvas(tw, th);
+  const targetCtx = get2dContext(targetCanvas);
+
+  if (!pixels || !targetCtx) {
+    drawSmooth(ctx, image, dx, dy, dw, dh);
+    return;
+  }
+
+  const resized = resamplePixels(pixels, tw, th, method);
+  targetCtx.putImageData(new ImageData(resized.data, tw, th), 0, 0);
+  ctx.drawImage(targetCanvas, dx, dy, dw, dh);
+};
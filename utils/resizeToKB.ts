@@ -0,0 +1,128 @@
+import { compressInBackground } from './compressionClient';
+import {
+  CompressionOptions,
+  CompressionProgress,
+  CompressionResult,
+  CompressionSource,
+  compressImageToTarget,
+  compressSourceToTarget,
+} from './imageProcessor';
+import { decodePixels } from './imageDecoder';
+import { createCanvas, fitCanvasLimits } from './canvas';
+import {
+  EncodableFormat,
+  MetadataOptions,
+  OutputFormat,
+  ResamplingMethod,
+  TargetDimensions,
+  TransparencyOptions,
+  UndersizeStrategy,
+} from '../types';
+
+// The "fit this image under N KB" pipeline as a plain function, for use outside the React UI.
+// Nothing here touches app state or the DOM beyond what the pipeline itself needs.
+
+export type { CompressionProgress } from './imageProcessor';
+export type {
+  CompressionStatus,
+  EncodableFormat,
+  FormatChoice,
+  MetadataOptions,
+  OutputFormat,
+  ResamplingMethod,
+  TargetDimensions,
+  TargetMissReason,
+  TransparencyOptions,
+  UndersizeStrategy,
+} from '../types';
+
+/** An encoded image (Blob or File), or pixels that are already decoded. */
+export type ResizeInput = Blob | ImageBitmap | ImageData;
+
+export interface ResizeToKBOptions {
+  /** Largest accepted size, in KB. */
+  targetKB: number;
+  /** Smallest accepted size, in KB. Smaller results are grown as `undersizeStrategy` says. */
+  minKB?: number;
+  undersizeStrategy?: UndersizeStrategy;
+  /** Defaults to JPEG. "original" means PNG for pixel input. */
+  format?: OutputFormat;
+  autoFormats?: EncodableFormat[];
+  dimensions?: TargetDimensions;
+  resampling?: ResamplingMethod;
+  transparency?: TransparencyOptions;
+  /** EXIF fields to keep in JPEG output. Only encoded input has any. */
+  metadata?: MetadataOptions;
+  /** Compress in a Web Worker where the browser allows it (default). Pixel input always runs on the calling thread. */
+  background?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: CompressionProgress) => void;
+}
+
+export interface ResizeToKBResult extends CompressionResult {
+  /** Size of `blob`, in bytes. */
+  size: number;
+}
+
+/**
+ * Wraps decoded pixels as a source, scaled down to the canvas limits if needed.
+ * Pixels have no file type; they are treated as PNG so transparency is detected.
+ */
+const sourceFromPixels = async (input: ImageBitmap | ImageData): Promise<{
+  source: CompressionSource;
+  downscaledFrom?: { width: number; height: number };
+  release: () => void;
+}> => {
+  if (input instanceof ImageData) {
+    const { image, width, height, type, downscaledFrom, release } = await decodePixels(input, 'image/png');
+    return { source: { image, width, height, type }, downscaledFrom, release };
+  }
+
+  const fit = fitCanvasLimits(input.width, input.height);
+  if (!fit.scaled) {
+    // The caller owns the bitmap, so it isn't closed here
+    return { source: { image: input, width: input.width, height: input.height, type: 'image/png' }, release: () => {} };
+  }
+  const resized = await createImageBitmap(input, { resizeWidth: fit.width, resizeHeight: fit.height, resizeQuality: 'high' });
+  return {
+    source: { image: resized, width: fit.width, height: fit.height, type: 'image/png' },
+    downscaledFrom: { width: input.width, height: input.height },
+    release: () => resized.close(),
+  };
+};
+
+/**
+ * Compresses an image to at most `options.targetKB` (and at least `options.minKB`, if given)
+ * with the same search the app uses: quality and scale are tuned together and the
+ * best-looking result that fits wins. Targets that can't be met still resolve, with the
+ * closest result and its `status` and `reason`.
+ * Rejects with the errors in utils/errors for unreadable images, and with the signal's
+ * reason when aborted.
+ */
+export const resizeToKB = async (input: ResizeInput, options: ResizeToKBOptions): Promise<ResizeToKBResult> => {
+  const { targetKB, minKB, background = true, ...rest } = options;
+  if (!(targetKB > 0)) {
+    throw new RangeError('targetKB must be a positive number');
+  }
+  if (minKB !== undefined && !(minKB > 0 && minKB < targetKB)) {
+    throw new RangeError('minKB must be positive and below targetKB');
+  }
+
+  const compression: CompressionOptions = { ...rest, minSizeKB: minKB };
+  let result: CompressionResult;
+
+  if (input instanceof Blob) {
+    result = background
+      ? await compressInBackground(input, targetKB, compression)
+      : await compressImageToTarget(input, targetKB, compression);
+  } else {
+    const { source, downscaledFrom, release } = await sourceFromPixels(input);
+    try {
+      result = { ...await compressSourceToTarget(source, createCanvas(1, 1), targetKB, compression), downscaledFrom };
+    } finally {
+      release();
+    }
+  }
+
+  return { ...result, size: result.blob.size };
+};
@@ -0,0 +1,105 @@
+import { createCanvas, get2dContext } from './canvas';
+import { CanvasContextError } from './errors';
+import { EditSource } from './edits';
+import { ExifData, parseExifDate, summarizeExif } from './exif';
+import { getBaseName } from './fileHelpers';
+import { StampOptions } from '../types';
+
+// Text stamps (name, date) printed onto the image. They are drawn before the size search,
+// so the bytes they cost are part of the budget and the text is compressed with the photo.
+
+export interface StampValues {
+  /** File name without its extension. */
+  filename: string;
+  date: Date;
+}
+
+// Smallest line height in pixels, however small the share of the image height
+const MIN_FONT_PX = 10;
+const LINE_SPACING = 1.25;
+// Space around the text, relative to the font size
+const PADDING = 0.4;
+
+/**
+ * Token values for a file: its name, and the date the photo was taken (today when unknown).
+ */
+export const getStampValues = (fileName: string, exif?: ExifData | null): StampValues => ({
+  filename: getBaseName(fileName),
+  date: parseExifDate(exif ? summarizeExif(exif).captureDate : undefined) ?? new Date(),
+});
+
+/**
+ * Replaces the {date} and {filename} tokens in the stamp text.
+ */
+export const fillStamp = (stamp: StampOptions, values: StampValues): StampOptions => ({
+  ...stamp,
+  text: stamp.text
+    .replace(/\{date\}/gi, values.date.toLocaleDateString())
+    .replace(/\{filename\}/gi, values.filename),
+});
+
+/**
+ * Whether the stamp text uses the {date} token.
+ */
+export const usesDateToken = (stamp: StampOptions): boolean => /\{date\}/i.test(stamp.text);
+
+// Outline for text without a band: dark around light text, light around dark text
+const outlineFor = (color: string): string => {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return 'rgba(0, 0, 0, 0.6)';
+  const [r, g, b] = [0, 2, 4].map(start => parseInt(hex.slice(start, start + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 128 ? 'rgba(0, 0, 0, 0.6)' : 'rgba(255, 255, 255, 0.6)';
+};
+
+/**
+ * Draws the stamp onto a copy of the image. `text` must already have its tokens filled in.
+ * Returns the source itself when the stamp is off or empty.
+ */
+export const applyStamp = (source: EditSource, stamp: StampOptions): EditSource => {
+  const lines = stamp.text.split('\n').map(line => line.trim()).filter(Boolean);
+  if (!stamp.enabled || lines.length === 0) return source;
+
+  const { width, height } = source;
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  if (!ctx) {
+    throw new CanvasContextError();
+  }
+  ctx.drawImage(source.image, 0, 0);
+
+  let fontSize = Math.max(MIN_FONT_PX, Math.round(stamp.fontSize * height));
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  // Long lines shrink to fit rather than being cut off
+  const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const available = width - 2 * Math.round(fontSize * PADDING);
+  if (widest > available) {
+    fontSize = Math.max(1, Math.floor((fontSize * available) / widest));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+  }
+
+  const padding = Math.round(fontSize * PADDING);
+  const lineHeight = Math.round(fontSize * LINE_SPACING);
+  const bandHeight = Math.min(height, lines.length * lineHeight + 2 * padding);
+  const top = stamp.position === 'top' ? 0 : height - bandHeight;
+
+  if (stamp.band) {
+    ctx.fillStyle = stamp.bandColor;
+    ctx.fillRect(0, top, width, bandHeight);
+  }
+
+  ctx.textAlign = stamp.align;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = stamp.color;
+  ctx.strokeStyle = outlineFor(stamp.color);
+  ctx.lineWidth = Math.max(1, fontSize / 8);
+  ctx.lineJoin = 'round';
+  const x = stamp.align === 'left' ? padding : stamp.align === 'right' ? width - padding : width / 2;
+
+  lines.forEach((line, index) => {
+    const y = top + padding + lineHeight * (index + 0.5);
+    if (!stamp.band) ctx.strokeText(line, x, y);
+    ctx.fillText(line, x, y);
+  });
+
+  return { image: canvas, width, height };
+};
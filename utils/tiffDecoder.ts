@@ -0,0 +1,352 @@
+import { ExifEntry, entryValues, readTiffIfd } from './exif';
+import { DecodedPixels } from './decodedPixels';
+import { UnsupportedImageError } from './errors';
+import { inflate, supportsDeflate } from './deflate';
+
+// Pure TypeScript decoder for the TIFF files scanners and print workflows produce.
+// Reads the first page: strips or tiles, uncompressed / PackBits / LZW / Deflate,
+// 1–16 bits per sample, bilevel, greyscale, palette, RGB(A) and CMYK.
+
+const TAG_WIDTH = 256;
+const TAG_HEIGHT = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIG = 284;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_OLD = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  2: 'CCITT',
+  3: 'CCITT fax',
+  4: 'CCITT fax',
+  6: 'old-style JPEG',
+  7: 'JPEG',
+  34712: 'JPEG 2000',
+};
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_CMYK = 5;
+
+const EXTRA_ASSOCIATED_ALPHA = 1;
+const EXTRA_UNASSOCIATED_ALPHA = 2;
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24; // Signed byte
+    if (n >= 0) {
+      // Copy the next n + 1 bytes literally
+      out.set(input.subarray(i, i + n + 1).subarray(0, expected - o), o);
+      o += n + 1;
+      i += n + 1;
+    } else if (n !== -128) {
+      // Repeat the next byte 1 - n times
+      out.fill(input[i++], o, Math.min(expected, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+
+  return out;
+};
+
+const lzwDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const CLEAR = 256;
+  const EOI = 257;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let c = 0; c < 256; c++) {
+    suffix[c] = c;
+    lengths[c] = 1;
+    prefix[c] = -1;
+  }
+
+  const out = new Uint8Array(expected);
+  let o = 0;
+  let bitPos = 0;
+  let codeLength = 9;
+  let next = 258;
+  let previous = -1;
+
+  const readCode = () => {
+    let code = 0;
+    for (let k = 0; k < codeLength; k++, bitPos++) {
+      const byte = input[bitPos >> 3];
+      if (byte === undefined) return EOI;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+    }
+    return code;
+  };
+
+  // Writes the string for a code and returns its first byte
+  const emit = (code: number): number => {
+    const length = lengths[code];
+    let c = code;
+    for (let k = length - 1; k >= 0; k--) {
+      if (o + k < expected) out[o + k] = suffix[c];
+      if (k === 0) break;
+      c = prefix[c];
+    }
+    o += length;
+    return suffix[c];
+  };
+
+  while (o < expected) {
+    const code = readCode();
+    if (code === EOI) break;
+
+    if (code === CLEAR) {
+      codeLength = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      emit(code);
+    } else if (next < 4096) {
+      let first: number;
+      if (code < next) {
+        first = emit(code);
+      } else {
+        // KwKwK case: the code being defined is the previous string plus its own first byte
+        first = emit(previous);
+        if (o < expected) out[o] = first;
+        o++;
+      }
+      prefix[next] = previous;
+      suffix[next] = first;
+      lengths[next] = lengths[previous] + 1;
+      next++;
+    } else {
+      emit(code);
+    }
+
+    previous = code;
+    // TIFF switches code width one code early
+    if (next + 1 >= 1 << codeLength && codeLength < 12) codeLength++;
+  }
+
+  return out;
+};
+
+const decompress = async (input: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_PACKBITS:
+      return unpackBits(input, expected);
+    case COMPRESSION_LZW:
+      return lzwDecode(input, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD:
+      if (!supportsDeflate()) {
+        throw new UnsupportedImageError('This browser cannot read Deflate-compressed TIFF files');
+      }
+      return inflate(input);
+    default:
+      throw new UnsupportedImageError(
+        `TIFF files with ${COMPRESSION_NAMES[compression] || `type ${compression}`} compression are not supported`
+      );
+  }
+};
+
+/**
+ * Undoes horizontal differencing (predictor 2) in place for 8- and 16-bit samples.
+ */
+const undoPredictor = (data: Uint8Array, rowBytes: number, rows: number, samples: number, bits: number, little: boolean) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes;
+    if (bits === 8) {
+      for (let i = samples; i < rowBytes && row + i < data.length; i++) {
+        data[row + i] = (data[row + i] + data[row + i - samples]) & 0xff;
+      }
+    } else if (bits === 16) {
+      for (let i = samples * 2; i + 1 < rowBytes && row + i + 1 < data.length; i += 2) {
+        const value = view.getUint16(row + i, little) + view.getUint16(row + i - samples * 2, little);
+        view.setUint16(row + i, value & 0xffff, little);
+      }
+    }
+  }
+};
+
+/**
+ * Decodes the first page of a TIFF file to RGBA pixels.
+ */
+export const decodeTiff = async (bytes: Uint8Array): Promise<DecodedPixels> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = view.getUint16(0);
+  const little = order === 0x4949;
+  if ((order !== 0x4949 && order !== 0x4d4d) || bytes.length < 8) {
+    throw new UnsupportedImageError('This TIFF file is damaged');
+  }
+  if (view.getUint16(2, little) === 43) {
+    throw new UnsupportedImageError('BigTIFF files are not supported');
+  }
+
+  const entries = readTiffIfd(view, view.getUint32(4, little), little);
+  const find = (tag: number): ExifEntry | undefined => entries.find(e => e.tag === tag);
+  const value = (tag: number, fallback: number) => entryValues(find(tag))[0] ?? fallback;
+
+  const width = value(TAG_WIDTH, 0);
+  const height = value(TAG_HEIGHT, 0);
+  const samples = value(TAG_SAMPLES_PER_PIXEL, 1);
+  const bits = value(TAG_BITS_PER_SAMPLE, 1);
+  const compression = value(TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = value(TAG_PHOTOMETRIC, samples >= 3 ? PHOTOMETRIC_RGB : PHOTOMETRIC_BLACK_IS_ZERO);
+  const predictor = value(TAG_PREDICTOR, 1);
+  const extra = entryValues(find(TAG_EXTRA_SAMPLES));
+  const colorMap = entryValues(find(TAG_COLOR_MAP));
+
+  if (!width || !height) {
+    throw new UnsupportedImageError('This TIFF file is damaged');
+  }
+  if (![1, 2, 4, 8, 16].includes(bits)) {
+    throw new UnsupportedImageError(`${bits}-bit TIFF files are not supported`);
+  }
+  if (samples > 1 && value(TAG_PLANAR_CONFIG, 1) !== 1) {
+    throw new UnsupportedImageError('TIFF files with separate colour planes are not supported');
+  }
+  if (predictor !== 1 && predictor !== 2) {
+    throw new UnsupportedImageError('Floating-point TIFF files are not supported');
+  }
+
+  const colorSamples = {
+    [PHOTOMETRIC_WHITE_IS_ZERO]: 1,
+    [PHOTOMETRIC_BLACK_IS_ZERO]: 1,
+    [PHOTOMETRIC_RGB]: 3,
+    [PHOTOMETRIC_PALETTE]: 1,
+    [PHOTOMETRIC_CMYK]: 4,
+  }[photometric];
+  if (!colorSamples || samples < colorSamples) {
+    throw new UnsupportedImageError('This TIFF colour space is not supported');
+  }
+  if (photometric === PHOTOMETRIC_PALETTE && colorMap.length < 3 << bits) {
+    throw new UnsupportedImageError('This TIFF file is damaged');
+  }
+
+  // The first extra sample after the colour channels may be alpha
+  const alphaKind = extra[0];
+  const alphaIndex = alphaKind === EXTRA_ASSOCIATED_ALPHA || alphaKind === EXTRA_UNASSOCIATED_ALPHA ? colorSamples : -1;
+
+  // Image data is split into tiles or horizontal strips
+  const tiled = !!find(TAG_TILE_WIDTH);
+  const chunkWidth = tiled ? value(TAG_TILE_WIDTH, width) : width;
+  const chunkHeight = tiled ? value(TAG_TILE_LENGTH, height) : Math.min(value(TAG_ROWS_PER_STRIP, height), height);
+  const offsets = entryValues(find(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS));
+  const counts = entryValues(find(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS));
+  const across = Math.ceil(width / chunkWidth);
+
+  if (offsets.length === 0) {
+    throw new UnsupportedImageError('This TIFF file is damaged');
+  }
+
+  const rowBytes = Math.ceil((chunkWidth * samples * bits) / 8);
+  const maxValue = (1 << bits) - 1;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const sample = new Array<number>(samples);
+
+  for (let c = 0; c < offsets.length; c++) {
+    const x0 = tiled ? (c % across) * chunkWidth : 0;
+    const y0 = tiled ? Math.floor(c / across) * chunkHeight : c * chunkHeight;
+    if (y0 >= height) break;
+
+    const rows = Math.min(chunkHeight, tiled ? chunkHeight : height - y0);
+    const raw = bytes.subarray(offsets[c], offsets[c] + (counts[c] ?? bytes.length));
+    const data = await decompress(raw, compression, rowBytes * rows);
+    if (predictor === 2) undoPredictor(data, rowBytes, rows, samples, bits, little);
+    const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    for (let y = 0; y < rows && y0 + y < height; y++) {
+      const row = y * rowBytes;
+
+      for (let x = 0; x < chunkWidth && x0 + x < width; x++) {
+        // Read every sample of this pixel, scaled to 0–255 (palette indices stay raw)
+        for (let s = 0; s < samples; s++) {
+          const index = x * samples + s;
+          let v: number;
+          if (bits === 8) {
+            v = data[row + index] ?? 0;
+          } else if (bits === 16) {
+            const at = row + index * 2;
+            v = at + 1 < data.length ? dataView.getUint16(at, little) : 0;
+            if (photometric !== PHOTOMETRIC_PALETTE) v >>= 8;
+          } else {
+            const bit = index * bits;
+            v = ((data[row + (bit >> 3)] ?? 0) >> (8 - bits - (bit & 7))) & maxValue;
+            if (photometric !== PHOTOMETRIC_PALETTE) v = Math.round((v * 255) / maxValue);
+          }
+          sample[s] = v;
+        }
+
+        let r: number, g: number, b: number;
+        switch (photometric) {
+          case PHOTOMETRIC_WHITE_IS_ZERO:
+            r = g = b = 255 - sample[0];
+            break;
+          case PHOTOMETRIC_BLACK_IS_ZERO:
+            r = g = b = sample[0];
+            break;
+          case PHOTOMETRIC_PALETTE: {
+            const i = sample[0];
+            const size = 1 << bits;
+            r = colorMap[i] >> 8;
+            g = colorMap[size + i] >> 8;
+            b = colorMap[2 * size + i] >> 8;
+            break;
+          }
+          case PHOTOMETRIC_CMYK: {
+            const k = 255 - sample[3];
+            r = ((255 - sample[0]) * k) / 255;
+            g = ((255 - sample[1]) * k) / 255;
+            b = ((255 - sample[2]) * k) / 255;
+            break;
+          }
+          default:
+            r = sample[0];
+            g = sample[1];
+            b = sample[2];
+        }
+
+        let a = alphaIndex >= 0 ? sample[alphaIndex] : 255;
+        if (alphaKind === EXTRA_ASSOCIATED_ALPHA && a > 0 && a < 255) {
+          // Canvas pixels are not premultiplied
+          r = (r * 255) / a;
+          g = (g * 255) / a;
+          b = (b * 255) / a;
+        }
+
+        const o = ((y0 + y) * width + x0 + x) * 4;
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+        out[o + 3] = a;
+      }
+    }
+  }
+
+  return { width, height, data: out };
+};
@@ -0,0 +1,37 @@
+import { createCanvas, get2dContext } from './canvas';
+
+// Formats that can carry an alpha channel
+const ALPHA_TYPES = ['image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+// Alpha is checked on a copy no larger than this (long side); averaging while
+// downscaling keeps even small transparent areas below full opacity
+const DETECT_MAX_SIDE = 512;
+
+/**
+ * Whether files of this MIME type can store transparency.
+ */
+export const supportsAlpha = (type: string): boolean => ALPHA_TYPES.includes(type);
+
+/**
+ * Alpha-capable format to switch JPEG output to when transparency should be kept.
+ */
+export const ALPHA_FALLBACK_TYPE = 'image/webp';
+
+/**
+ * Whether any pixel of the image is not fully opaque.
+ */
+export const hasTransparency = (image: CanvasImageSource, width: number, height: number): boolean => {
+  const ratio = Math.min(1, DETECT_MAX_SIDE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * ratio));
+  const h = Math.max(1, Math.round(height * ratio));
+  const canvas = createCanvas(w, h);
+  const ctx = get2dContext(canvas);
+  if (!ctx) return false;
+
+  ctx.drawImage(image, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
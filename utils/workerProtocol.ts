@@ -0,0 +1,50 @@
+import { CompressionOptions, CompressionProgress, CompressionResult } from './imageProcessor';
+import { PipelineErrorName } from './errors';
+
+/**
+ * Messages exchanged between the main thread and the compression worker.
+ * Every message carries the id of the request it belongs to.
+ */
+
+/** Structured-cloneable subset of CompressionOptions (callbacks and the signal stay on the main thread). */
+export type WorkerCompressionOptions = Omit<CompressionOptions, 'onProgress' | 'signal'>;
+
+export interface CompressRequestMessage {
+  type: 'compress';
+  id: number;
+  file: Blob;
+  targetKB: number;
+  options: WorkerCompressionOptions;
+}
+
+/** Stops a running compression. The worker answers with an error that the caller ignores. */
+export interface CancelRequestMessage {
+  type: 'cancel';
+  id: number;
+}
+
+export type WorkerRequest = CompressRequestMessage | CancelRequestMessage;
+
+export interface ProgressMessage {
+  type: 'progress';
+  id: number;
+  progress: CompressionProgress;
+}
+
+export interface ResultMessage {
+  type: 'result';
+  id: number;
+  result: CompressionResult;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  id: number;
+  message: string;
+  /** True when the worker cannot run the pipeline at all and the caller should fall back. */
+  unsupported: boolean;
+  /** Set for the pipeline's own errors (see utils/errors), whose messages are meant for the user. */
+  errorName?: PipelineErrorName;
+}
+
+export type WorkerResponse = ProgressMessage | ResultMessage | ErrorMessage;
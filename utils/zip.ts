@@ -0,0 +1,126 @@
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+  lastModified?: number;
+}
+
+// Images are already compressed, so entries are written with the STORE method
+// (no deflate). This keeps the writer tiny and the archive build instant.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Standard CRC-32 (as used by ZIP and PNG).
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Converts a timestamp to the MS-DOS time/date pair used by ZIP headers.
+ */
+const toDosDateTime = (timestamp: number): { time: number; date: number } => {
+  const d = new Date(timestamp);
+  const year = Math.max(d.getFullYear(), 1980);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+};
+
+/**
+ * Makes file names unique within an archive by appending " (n)" before the extension.
+ */
+export const uniqueZipNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+
+    let candidate = name;
+    for (let n = 1; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${ext}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+/**
+ * Builds an uncompressed ZIP archive from a list of blobs, entirely in the browser.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.blob.arrayBuffer());
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? Date.now());
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // Local file header signature
+    lv.setUint16(4, 20, true); // Version needed to extract
+    lv.setUint16(6, 0x0800, true); // Flags: UTF-8 file names
+    lv.setUint16(8, 0, true); // Method: STORE
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // Compressed size
+    lv.setUint32(22, data.length, true); // Uncompressed size
+    lv.setUint16(26, nameBytes.length, true);
+    lv.setUint16(28, 0, true); // Extra field length
+    local.set(nameBytes, 30);
+
+    const header = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, 0x02014b50, true); // Central directory signature
+    cv.setUint16(4, 20, true); // Version made by
+    cv.setUint16(6, 20, true); // Version needed to extract
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    // Extra length, comment length, disk number, internal/external attrs stay 0
+    cv.setUint32(42, offset, true); // Offset of local header
+    header.set(nameBytes, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // End of central directory signature
+  ev.setUint16(8, entries.length, true); // Entries on this disk
+  ev.setUint16(10, entries.length, true); // Total entries
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true); // Central directory offset
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};